@@ -1,42 +1,189 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
-import { ArrowLeft, Play, Pause, RotateCcw, Settings, Brain, Activity, TrendingUp } from "lucide-react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
+import {
+  ArrowLeft,
+  Play,
+  Pause,
+  RotateCcw,
+  StepForward,
+  Save,
+  Download,
+  Upload,
+  Settings,
+  Brain,
+  Activity,
+  TrendingUp,
+  Database,
+  Grid3x3,
+  Target,
+  Sprout,
+  Dices,
+  Shield,
+  ClipboardCheck,
+  LineChart as LineChartIcon,
+} from "lucide-react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
-
-// Types for our neural network
-interface NetworkNode {
-  id: string
-  layer: number
-  position: number
-  activation: number
-  bias: number
-  input?: number
-  output?: number
-}
-
-interface NetworkConnection {
-  from: string
-  to: string
-  weight: number
-  active: boolean
+import { DecisionBoundary } from "@/components/ann/decision-boundary"
+import { EvaluationPanel } from "@/components/ann/evaluation-panel"
+import { LineChart } from "@/components/line-chart"
+import { NetworkCanvas } from "@/components/ann/network-canvas"
+import { CsvImport } from "@/components/csv-import"
+import { PerceptronPlot } from "@/components/ann/perceptron-plot"
+import { activationFunctions, type ActivationName } from "@/lib/ann/activations"
+import {
+  csvDataset,
+  datasets,
+  splitDataset,
+  type DatasetName,
+  type DatasetSplit,
+} from "@/lib/ann/datasets"
+import {
+  clearOptimizerState,
+  createDenseNetwork,
+  denseConnection,
+  denseNodes,
+  evaluateDense,
+  findConnection,
+  forwardPass,
+  predictDense,
+  updateLayer,
+  type DenseNetwork,
+  type EngineConfig,
+} from "@/lib/ann/engine"
+import { evaluateClassifier } from "@/lib/ann/evaluation"
+import { initializers, type InitializerName } from "@/lib/ann/initializers"
+import { lossFunctions, type LossName } from "@/lib/ann/losses"
+import {
+  defaultOptimizerConfig,
+  optimizers,
+  type OptimizerHyperparameter,
+  type OptimizerName,
+} from "@/lib/ann/optimizers"
+import {
+  defaultScheduleParams,
+  scheduledLearningRate,
+  schedules,
+  type ScheduleName,
+  type ScheduleParameter,
+} from "@/lib/ann/schedules"
+import { createModelFile, parseModelFile, restoreNetwork, type ModelFile } from "@/lib/ann/model-file"
+import {
+  initialPerceptronProgress,
+  perceptronAccuracy,
+  perceptronLines,
+  perceptronStep,
+  type PerceptronProgress,
+} from "@/lib/ann/perceptron"
+import { createRandom, type RandomSource } from "@/lib/ann/random"
+import { traceSample, type TraceStep } from "@/lib/ann/trace"
+import type { TrainingRequest, TrainingSnapshot } from "@/lib/ann/training-worker"
+import type { NetworkConnection, NetworkNode, Sample, TrainingMetrics } from "@/lib/ann/types"
+import type { CsvDataset } from "@/lib/csv"
+
+// Per-batch losses kept for the gradient-noise chart
+const MAX_BATCH_HISTORY = 1000
+const MAX_PROGRESS_SEGMENTS = 200
+
+// Collapse repeated layers, e.g. ["relu", "relu", "sigmoid"] -> "ReLU×2 → Sigmoid"
+const describeActivations = (names: ActivationName[]) => {
+  const runs: { name: ActivationName; count: number }[] = []
+  names.forEach((name) => {
+    const last = runs[runs.length - 1]
+    if (last?.name === name) last.count++
+    else runs.push({ name, count: 1 })
+  })
+  return runs
+    .map(({ name, count }) => `${activationFunctions[name].label}${count > 1 ? `×${count}` : ""}`)
+    .join(" → ")
 }
 
-interface TrainingMetrics {
-  epoch: number
-  loss: number
-  accuracy: number
-  learningRate: number
+// Architecture slider limits; training runs in the worker, so wide layers stay responsive
+const MAX_INPUT_NODES = 64
+// Also caps the classes of an uploaded CSV (one-hot targets) and of imported models
+const MAX_OUTPUT_NODES = 4
+const MAX_HIDDEN_LAYERS = 8
+const MAX_NODES_PER_LAYER = 256
+// Truth tables enumerate all 2ⁿ input rows
+const MAX_TRUTH_TABLE_INPUTS = 10
+// Networks with a wider layer switch from the SVG diagram to the zoomable canvas renderer
+const SVG_NODE_LIMIT = 16
+
+const sendToWorker = (worker: Worker | null, request: TrainingRequest) => worker?.postMessage(request)
+
+// Connections carrying at least this fraction of the largest gradient are drawn as active
+const ACTIVE_GRADIENT_FRACTION = 0.05
+const LAYER_COLORS = ["#06b6d4", "#a855f7", "#f59e0b", "#ec4899", "#84cc16"]
+
+// Small learning rates would round to 0.000 with a fixed number of decimals
+const formatRate = (rate: number) => (rate >= 0.01 || rate === 0 ? rate.toFixed(3) : rate.toExponential(1))
+
+const layerLabel = (layer: number, layerCount: number) =>
+  layer === layerCount - 1 ? "Output Layer" : `Hidden Layer ${layer}`
+
+// Short neuron name used on the diagram: i0, h1-2, o0
+const nodeLabel = (id: string, layerCount: number) => {
+  const [layer, position] = id.split("-").map(Number)
+  if (layer === 0) return `i${position}`
+  return layer === layerCount - 1 ? `o${position}` : `h${layer}-${position}`
 }
 
-// Activation functions
-const activationFunctions = {
-  sigmoid: (x: number) => 1 / (1 + Math.exp(-x)),
-  relu: (x: number) => Math.max(0, x),
-  tanh: (x: number) => Math.tanh(x),
-  leaky_relu: (x: number) => (x > 0 ? x : 0.01 * x),
-  linear: (x: number) => x,
+// Title and numbers for the info panel while stepping through a pass
+const describeTraceStep = (step: TraceStep, index: number, total: number, layerCount: number) => {
+  const name = (id: string) => nodeLabel(id, layerCount)
+  const prefix = `Step ${index + 1}/${total} · `
+
+  switch (step.kind) {
+    case "sum":
+      return {
+        title: `${prefix}Weighted sum at ${name(step.node)}`,
+        details: [
+          ...step.terms.map((term) => ({
+            label: `${name(term.from)} × w`,
+            value: `${term.activation.toFixed(3)} × ${term.weight.toFixed(3)}`,
+          })),
+          { label: "Bias", value: step.bias.toFixed(4) },
+          { label: "z = Σ a·w + b", value: step.value.toFixed(4) },
+        ],
+      }
+    case "activation": {
+      const activation = activationFunctions[step.activation]
+      return {
+        title: `${prefix}${activation.label} at ${name(step.node)}`,
+        details: [
+          { label: step.batchNorm ? "γ·BN(z) + β" : "z", value: step.input.toFixed(4) },
+          { label: "Function", value: step.layerwise ? "softmax over the layer" : activation.formula },
+          { label: "a = f(z)", value: step.output.toFixed(4) },
+        ],
+      }
+    }
+    case "loss":
+      return {
+        title: `${prefix}${lossFunctions[step.loss].label}`,
+        details: [
+          ...step.nodes.map((id, i) => ({
+            label: `${name(id)} output / target`,
+            value: `${step.output[i].toFixed(3)} / ${step.target[i].toFixed(3)}`,
+          })),
+          { label: "Loss", value: step.value.toFixed(4) },
+        ],
+      }
+    case "backward":
+      return {
+        title: `${prefix}Backward through ${layerLabel(step.layer, layerCount)}`,
+        details: [
+          ...step.deltas.map(({ node, delta }) => ({
+            label: `δ ${name(node)} = ∂L/∂z`,
+            value: delta.toExponential(2),
+          })),
+          {
+            label: "‖∂L/∂W‖ into layer",
+            value: Math.sqrt(step.weights.reduce((sum, { gradient }) => sum + gradient ** 2, 0)).toExponential(2),
+          },
+        ],
+      }
+  }
 }
 
 export default function ANNSimulation() {
@@ -46,26 +193,118 @@ export default function ANNSimulation() {
   const [nodesPerLayer, setNodesPerLayer] = useState(4)
   const [inputNodes, setInputNodes] = useState(3)
   const [outputNodes, setOutputNodes] = useState(2)
-  const [activationFunction, setActivationFunction] = useState<keyof typeof activationFunctions>("sigmoid")
+  const [hiddenActivations, setHiddenActivations] = useState<ActivationName[]>(
+    Array(MAX_HIDDEN_LAYERS).fill("sigmoid"),
+  )
+  const [outputActivation, setOutputActivation] = useState<ActivationName>("sigmoid")
+  const [plottedLayer, setPlottedLayer] = useState(1)
+  const [lossName, setLossName] = useState<LossName>("mse")
+  const [initializerName, setInitializerName] = useState<InitializerName>("uniform")
+  const [seed, setSeed] = useState(42)
+
+  // Dataset settings
+  // "custom" is the uploaded CSV, once there is one
+  const [datasetName, setDatasetName] = useState<DatasetName | "custom">("xor")
+  const [uploaded, setUploaded] = useState<{ name: string; data: CsvDataset } | null>(null)
+  const customDataset = useMemo(() => (uploaded ? csvDataset(uploaded.name, uploaded.data) : null), [uploaded])
+  const dataset = datasetName === "custom" ? (customDataset ?? datasets.xor) : datasets[datasetName]
+  const [datasetNoise, setDatasetNoise] = useState(0.05)
+  const [sampleCount, setSampleCount] = useState(200)
+  const [validationRatio, setValidationRatio] = useState(0.2)
+  const [testRatio, setTestRatio] = useState(0.1)
+
+  // Regularization: per-hidden-layer dropout and batch norm, plus global weight decay
+  const [hiddenDropout, setHiddenDropout] = useState<number[]>(Array(MAX_HIDDEN_LAYERS).fill(0))
+  const [hiddenBatchNorm, setHiddenBatchNorm] = useState<boolean[]>(Array(MAX_HIDDEN_LAYERS).fill(false))
+  const [l1, setL1] = useState(0)
+  const [l2, setL2] = useState(0)
+
+  // Activation of every non-input layer, in order (the perceptron only has its output layer, a hard threshold)
+  const layerActivations = useMemo<ActivationName[]>(
+    () =>
+      networkType === "perceptron"
+        ? ["step"]
+        : [...hiddenActivations.slice(0, hiddenLayers), outputActivation],
+    [networkType, hiddenActivations, hiddenLayers, outputActivation],
+  )
+
+  const engineConfig = useMemo<EngineConfig>(() => {
+    const hidden = networkType === "perceptron" ? 0 : hiddenLayers
+    return {
+      activations: layerActivations,
+      loss: lossName,
+      task: dataset.task,
+      dropout: hiddenDropout.slice(0, hidden),
+      batchNorm: hiddenBatchNorm.slice(0, hidden),
+      l1,
+      l2,
+    }
+  }, [networkType, hiddenLayers, layerActivations, lossName, dataset, hiddenDropout, hiddenBatchNorm, l1, l2])
 
   // Simulation state
   const [isTraining, setIsTraining] = useState(false)
   const [currentEpoch, setCurrentEpoch] = useState(0)
   const [maxEpochs, setMaxEpochs] = useState(100)
-  const [learningRate, setLearningRate] = useState(0.01)
+  const [learningRate, setLearningRate] = useState(defaultOptimizerConfig.learningRate)
+  const [optimizerName, setOptimizerName] = useState<OptimizerName>(defaultOptimizerConfig.name)
+  const [optimizerParams, setOptimizerParams] = useState<Record<OptimizerHyperparameter, number>>({
+    momentum: defaultOptimizerConfig.momentum,
+    decay: defaultOptimizerConfig.decay,
+    beta1: defaultOptimizerConfig.beta1,
+    beta2: defaultOptimizerConfig.beta2,
+    epsilon: defaultOptimizerConfig.epsilon,
+  })
+  const [scheduleName, setScheduleName] = useState<ScheduleName>("constant")
+  const [scheduleParams, setScheduleParams] = useState<Record<ScheduleParameter, number>>(defaultScheduleParams)
   const [trainingSpeed, setTrainingSpeed] = useState(200)
+  const [batchMode, setBatchMode] = useState<"full" | "mini" | "stochastic">("stochastic")
+  const [miniBatchSize, setMiniBatchSize] = useState(16)
+  const [shuffleEachEpoch, setShuffleEachEpoch] = useState(true)
+  const [earlyStopping, setEarlyStopping] = useState(false)
+  const [patience, setPatience] = useState(10)
+  const [earlyStop, setEarlyStop] = useState<TrainingSnapshot["earlyStop"] | null>(null)
+  // Which split the evaluation panel scores (falls back to training data when there is no validation split)
+  const [evaluationSplit, setEvaluationSplit] = useState<"train" | "validation">("validation")
+
+  // Backpropagation runs in a Web Worker; snapshots from any run but the current one are ignored
+  const worker = useRef<Worker | null>(null)
+  const runId = useRef(0)
+  // Set by hand edits, cleared whenever the worker is handed the network
+  const editedSinceRun = useRef(false)
+
+  // What the network diagram encodes: trained weights or last epoch's gradient magnitudes
+  const [networkView, setNetworkView] = useState<"weights" | "gradients">("weights")
+
+  // Saved model waiting for the next initialization to replace the fresh weights, and import problems
+  const importedModel = useRef<ModelFile | null>(null)
+  const [modelErrors, setModelErrors] = useState<string[]>([])
+
+  // Step-through of one sample's forward and backward pass
+  const [trace, setTrace] = useState<{ steps: TraceStep[]; index: number } | null>(null)
+
+  // Where Rosenblatt's rule is in the training data, and how the run ended
+  const [perceptronProgress, setPerceptronProgress] = useState<PerceptronProgress>(initialPerceptronProgress)
 
   // Neuron info state
   const [selectedNeuron, setSelectedNeuron] = useState<NetworkNode | null>(null)
+  const [selectedConnection, setSelectedConnection] = useState<number | null>(null)
   const [neuronInfo, setNeuronInfo] = useState<{
     title: string
     details: { label: string; value: string }[]
   } | null>(null)
 
-  // Network data
+  // Network data: the weight matrices are the model, `nodes` what the diagram shows at each neuron.
+  // Connections only become objects when the diagram or the connection editor needs them.
+  const [network, setNetwork] = useState<DenseNetwork | null>(null)
   const [nodes, setNodes] = useState<NetworkNode[]>([])
-  const [connections, setConnections] = useState<NetworkConnection[]>([])
   const [metrics, setMetrics] = useState<TrainingMetrics[]>([])
+  const [batchHistory, setBatchHistory] = useState<{ steps: number; losses: number[] }>({ steps: 0, losses: [] })
+  const [epochBatchLosses, setEpochBatchLosses] = useState<number[]>([])
+  // Dropout masks drawn for the diagram, so a seed replays what was shown too
+  const maskRandom = useRef<RandomSource>(Math.random)
+  const [samples, setSamples] = useState<Sample[]>([])
+  const [split, setSplit] = useState<DatasetSplit>({ train: [], validation: [], test: [] })
+  const [sampleIndex, setSampleIndex] = useState(0)
 
   // Generate network architecture array
   const getNetworkArchitecture = useCallback(() => {
@@ -79,139 +318,185 @@ export default function ANNSimulation() {
   // Initialize network
   const initializeNetwork = useCallback(() => {
     const architecture = getNetworkArchitecture()
-    const newNodes: NetworkNode[] = []
-    const newConnections: NetworkConnection[] = []
-
-    // Create nodes for each layer
-    architecture.forEach((layerSize, layerIndex) => {
-      for (let i = 0; i < layerSize; i++) {
-        const node: NetworkNode = {
-          id: `${layerIndex}-${i}`,
-          layer: layerIndex,
-          position: i,
-          activation: layerIndex === 0 ? Math.random() : 0,
-          bias: layerIndex === 0 ? 0 : (Math.random() - 0.5) * 2,
-        }
-
-        if (layerIndex === 0) {
-          node.input = Math.random()
-        }
-
-        newNodes.push(node)
-      }
+    const initializer = initializers[initializerName]
+
+    // Separate streams from one seed: changing the initializer never changes the data, and vice versa
+    const dataRandom = createRandom(seed)
+    const weightRandom = createRandom(seed ^ 0x9e3779b9)
+    runId.current++
+    editedSinceRun.current = false
+    sendToWorker(worker.current, { type: "reset", seed: seed ^ 0x85ebca6b })
+    maskRandom.current = createRandom(seed ^ 0xc2b2ae35)
+
+    const newSamples = dataset.generate({
+      inputSize: architecture[0],
+      outputSize: architecture[architecture.length - 1],
+      count: sampleCount,
+      noise: datasetNoise,
+      random: dataRandom,
     })
 
-    // Create connections between adjacent layers
-    for (let layer = 0; layer < architecture.length - 1; layer++) {
-      const currentLayerSize = architecture[layer]
-      const nextLayerSize = architecture[layer + 1]
-
-      for (let from = 0; from < currentLayerSize; from++) {
-        for (let to = 0; to < nextLayerSize; to++) {
-          newConnections.push({
-            from: `${layer}-${from}`,
-            to: `${layer + 1}-${to}`,
-            weight: (Math.random() - 0.5) * 2,
-            active: false,
-          })
-        }
-      }
-    }
-
-    setNodes(newNodes)
-    setConnections(newConnections)
-    setCurrentEpoch(0)
-    setMetrics([])
+    // An imported model (saved with this same architecture) takes the place of the random weights
+    const imported = importedModel.current
+    importedModel.current = null
+    const newNetwork = imported ? restoreNetwork(imported) : createDenseNetwork(architecture, initializer, weightRandom)
+    setNetwork(newNetwork)
+    // Neurons rest until the first forward pass; the input layer already holds the first sample
+    setNodes(
+      denseNodes(newNetwork).map((node) =>
+        node.layer === 0
+          ? { ...node, activation: newSamples[0].input[node.position], input: newSamples[0].input[node.position] }
+          : node,
+      ),
+    )
+    setSamples(newSamples)
+    // Truth tables enumerate the whole input space, so there is nothing unseen to hold out
+    setSplit(
+      dataset.fixedSize
+        ? { train: newSamples, validation: [], test: [] }
+        : splitDataset(newSamples, validationRatio, testRatio, dataRandom),
+    )
+    setSampleIndex(0)
+    setCurrentEpoch(imported?.metrics[imported.metrics.length - 1]?.epoch ?? 0)
+    setMetrics(imported?.metrics ?? [])
+    setBatchHistory({ steps: 0, losses: [] })
+    setEpochBatchLosses([])
+    setEarlyStop(null)
+    setPerceptronProgress(initialPerceptronProgress())
     setSelectedNeuron(null)
+    setSelectedConnection(null)
     setNeuronInfo(null)
-  }, [getNetworkArchitecture])
-
-  // Forward pass simulation
-  const performForwardPass = useCallback(() => {
-    const architecture = getNetworkArchitecture()
-
-    setNodes((prevNodes) => {
-      const newNodes = [...prevNodes]
-
-      // Set input values
-      newNodes
-        .filter((n) => n.layer === 0)
-        .forEach((node) => {
-          node.activation = node.input || Math.random()
-        })
-
-      // Process each layer
-      for (let layer = 1; layer < architecture.length; layer++) {
-        const currentLayerNodes = newNodes.filter((n) => n.layer === layer)
-
-        currentLayerNodes.forEach((node) => {
-          let sum = node.bias
-
-          // Sum weighted inputs from previous layer
-          connections.forEach((conn) => {
-            if (conn.to === node.id) {
-              const fromNode = newNodes.find((n) => n.id === conn.from)
-              if (fromNode) {
-                sum += fromNode.activation * conn.weight
-              }
-            }
-          })
+    setTrace(null)
+  }, [
+    getNetworkArchitecture,
+    dataset,
+    sampleCount,
+    datasetNoise,
+    validationRatio,
+    testRatio,
+    initializerName,
+    seed,
+  ])
+
+  // Forward pass: load a sample into the input neurons and store each node's activation.
+  // While training, a fresh dropout mask is drawn so the diagram shows which neurons sit out.
+  const performForwardPass = useCallback(
+    (current: DenseNetwork, sample: Sample, training = false) => {
+      const { activations, dropped } = forwardPass(
+        current,
+        sample.input,
+        engineConfig,
+        training ? maskRandom.current : undefined,
+      )
+
+      return denseNodes(current).map((node) => ({
+        ...node,
+        activation: activations.get(node.id) ?? node.activation,
+        input: node.layer === 0 ? sample.input[node.position] : node.input,
+        dropped: dropped.has(node.id),
+      }))
+    },
+    [engineConfig],
+  )
 
-          // Apply activation function
-          node.activation = activationFunctions[activationFunction](sum)
-        })
-      }
+  // Network predictions for arbitrary inputs, used by the decision boundary heatmap
+  const predictInputs = useCallback(
+    (inputs: number[][]) => (network ? predictDense(network, inputs, engineConfig) : []),
+    [network, engineConfig],
+  )
 
-      return newNodes
-    })
+  const batchSize =
+    batchMode === "full" ? Math.max(1, split.train.length) : batchMode === "mini" ? miniBatchSize : 1
 
-    // Activate connections randomly for visual effect
-    setConnections((prev) =>
-      prev.map((conn) => ({
-        ...conn,
-        active: Math.random() > 0.6,
-      })),
-    )
-  }, [connections, activationFunction, getNetworkArchitecture])
+  // The worker lives as long as the page; it must exist before the first initialization resets it
+  useEffect(() => {
+    const trainer = new Worker(new URL("../../lib/ann/training-worker.ts", import.meta.url))
+    worker.current = trainer
+    return () => {
+      trainer.terminate()
+      worker.current = null
+    }
+  }, [])
 
-  // Training simulation
+  // Each snapshot from the worker is one finished epoch of backpropagation
   useEffect(() => {
-    let interval: NodeJS.Timeout
-
-    if (isTraining && currentEpoch < maxEpochs) {
-      interval = setInterval(() => {
-        performForwardPass()
-
-        // Simulate backpropagation with weight updates
-        setConnections((prev) =>
-          prev.map((conn) => ({
-            ...conn,
-            weight: conn.weight + (Math.random() - 0.5) * learningRate * 0.1,
-            active: Math.random() > 0.5,
-          })),
-        )
+    const trainer = worker.current
+    if (!trainer) return
+    trainer.onmessage = (event: MessageEvent<TrainingSnapshot>) => {
+      const snapshot = event.data
+      if (snapshot.run !== runId.current) return
+
+      setEpochBatchLosses(snapshot.batchLosses)
+      setBatchHistory((prev) => ({
+        steps: prev.steps + snapshot.batchLosses.length,
+        losses: [...prev.losses, ...snapshot.batchLosses].slice(-MAX_BATCH_HISTORY),
+      }))
+      setMetrics((prev) => [...prev, snapshot.metrics])
+      if (snapshot.earlyStop) setEarlyStop(snapshot.earlyStop)
+      if (snapshot.finished) setIsTraining(false)
+
+      // Show the network's response to the next sample in the dataset
+      const nextSampleIndex = (sampleIndex + 1) % samples.length
+      setNetwork(snapshot.network)
+      setNodes(performForwardPass(snapshot.network, samples[nextSampleIndex], true))
+      setSampleIndex(nextSampleIndex)
+      setCurrentEpoch(snapshot.metrics.epoch)
+    }
+  }, [samples, sampleIndex, performForwardPass])
 
-        // Update metrics
-        const progress = currentEpoch / maxEpochs
-        const newLoss = Math.max(0.01, 2 * Math.exp(-currentEpoch * 0.05) + Math.random() * 0.1)
-        const newAccuracy = Math.min(0.99, progress * 0.8 + 0.2 + Math.random() * 0.05)
+  // However training was paused (button, last epoch, early stop, reset), the worker's run ends with it
+  useEffect(() => {
+    if (isTraining) return
+    runId.current++
+    sendToWorker(worker.current, { type: "stop" })
+  }, [isTraining])
+
+  // Perceptron learning: present the training samples in order and correct every mistake, either up to the next
+  // correction (Step) or through to the end of the epoch (one per training tick)
+  const runPerceptron = useCallback(
+    (wholeEpoch: boolean) => {
+      if (!network || split.train.length === 0) return
+      let result = perceptronStep(network, split.train, perceptronProgress, learningRate, maxEpochs)
+      while (wholeEpoch && !result.finishedEpoch) {
+        result = perceptronStep(result.network, split.train, result.progress, learningRate, maxEpochs)
+      }
+      const { progress, finishedEpoch } = result
 
+      if (finishedEpoch) {
+        const validationAccuracy =
+          split.validation.length > 0
+            ? perceptronAccuracy(result.network, split.validation)
+            : undefined
         setMetrics((prev) => [
           ...prev,
           {
-            epoch: currentEpoch + 1,
-            loss: newLoss,
-            accuracy: newAccuracy,
-            learningRate: learningRate,
+            epoch: finishedEpoch.epoch,
+            // The perceptron has no differentiable loss; chart the share of samples it had to correct
+            loss: finishedEpoch.mistakes / split.train.length,
+            accuracy: perceptronAccuracy(result.network, split.train),
+            validationLoss: validationAccuracy === undefined ? undefined : 1 - validationAccuracy,
+            validationAccuracy,
+            learningRate,
           },
         ])
+        setCurrentEpoch(finishedEpoch.epoch)
+      }
+      if (progress.outcome) setIsTraining(false)
+
+      // Show the sample that caused the latest correction (the weights it moved are highlighted on the diagram)
+      const corrected = progress.lastUpdate ? split.train[progress.lastUpdate.sample] : undefined
+      setNetwork(result.network)
+      if (corrected) setNodes(performForwardPass(result.network, corrected))
+      setPerceptronProgress(progress)
+    },
+    [network, split, perceptronProgress, learningRate, maxEpochs, performForwardPass],
+  )
 
-        setCurrentEpoch((prev) => prev + 1)
-      }, trainingSpeed)
-    }
-
-    return () => clearInterval(interval)
-  }, [isTraining, currentEpoch, maxEpochs, learningRate, trainingSpeed, performForwardPass])
+  useEffect(() => {
+    if (!isTraining || networkType !== "perceptron" || perceptronProgress.outcome) return
+    const timeout = setTimeout(() => runPerceptron(true), trainingSpeed)
+    return () => clearTimeout(timeout)
+  }, [isTraining, networkType, perceptronProgress, trainingSpeed, runPerceptron])
 
   // Initialize network on mount and architecture change
   useEffect(() => {
@@ -225,8 +510,65 @@ export default function ANNSimulation() {
     }
   }, [currentEpoch, maxEpochs])
 
+  // Switching optimizer discards the accumulated per-parameter state of the previous one
+  const changeOptimizer = (name: OptimizerName) => {
+    setOptimizerName(name)
+    setNetwork((prev) => prev && clearOptimizerState(prev))
+  }
+
   const toggleTraining = () => {
+    setTrace(null)
     setIsTraining(!isTraining)
+    if (isTraining || networkType !== "multilayer" || !network) return
+    setEarlyStop(null)
+
+    // Hand the worker its own copy of the network and everything it needs to keep training it
+    runId.current++
+    sendToWorker(worker.current, {
+      type: "start",
+      run: {
+        id: runId.current,
+        network,
+        train: split.train,
+        validation: split.validation,
+        config: engineConfig,
+        optimizer: { name: optimizerName, learningRate, ...optimizerParams },
+        schedule: scheduleName,
+        scheduleParams,
+        batchSize,
+        shuffle: shuffleEachEpoch,
+        epoch: currentEpoch,
+        maxEpochs,
+        patience: earlyStopping ? patience : null,
+        interval: trainingSpeed,
+        edited: editedSinceRun.current,
+      },
+    })
+    editedSinceRun.current = false
+  }
+
+  // Advance one operation through the current sample's pass; past the last step the walk-through ends.
+  // The perceptron has no backward pass, so there a step runs its learning rule up to the next correction.
+  const stepTrace = () => {
+    if (networkType === "perceptron") {
+      runPerceptron(false)
+      return
+    }
+    const layerCount = getNetworkArchitecture().length
+    let next = trace && { ...trace, index: trace.index + 1 }
+    if (!trace && network) {
+      const sample = samples[sampleIndex]
+      setNodes(performForwardPass(network, sample))
+      next = { steps: traceSample(network, sample, engineConfig), index: 0 }
+    }
+    if (!next || next.index >= next.steps.length) {
+      setTrace(null)
+      setNeuronInfo(null)
+      return
+    }
+    setTrace(next)
+    setSelectedNeuron(null)
+    setNeuronInfo(describeTraceStep(next.steps[next.index], next.index, next.steps.length, layerCount))
   }
 
   const resetSimulation = () => {
@@ -234,8 +576,163 @@ export default function ANNSimulation() {
     initializeNetwork()
   }
 
+  const exportModel = () => {
+    if (!network) return
+    const architecture = getNetworkArchitecture()
+    const model = createModelFile(
+      {
+        architecture,
+        activations: layerActivations,
+        loss: lossName,
+        optimizer: { name: optimizerName, learningRate, ...optimizerParams },
+        // The output layer never uses dropout or batch norm
+        dropout: [...(engineConfig.dropout ?? []), 0],
+        batchNorm: [...(engineConfig.batchNorm ?? []), false],
+        l1,
+        l2,
+        metrics,
+      },
+      network,
+    )
+    const url = URL.createObjectURL(new Blob([JSON.stringify(model, null, 2)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `ann-${architecture.join("-")}-epoch-${currentEpoch}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Uploaded data fixes the size of the input and output layers
+  const fitToData = (data: CsvDataset) => {
+    setInputNodes(data.featureNames.length)
+    setOutputNodes(data.targets[0].length)
+  }
+
+  const loadCsv = (name: string, data: CsvDataset) => {
+    setUploaded({ name, data })
+    setDatasetName("custom")
+    fitToData(data)
+  }
+
+  const importModel = async (file: File) => {
+    const result = parseModelFile(await file.text())
+    if (!result.ok) {
+      setModelErrors(result.errors)
+      return
+    }
+    const { model } = result
+
+    // The file is valid, but it also has to fit what the architecture sliders can express
+    const { architecture } = model
+    const hidden = architecture.slice(1, -1)
+    const errors: string[] = []
+    if (architecture[0] > MAX_INPUT_NODES) {
+      errors.push(`architecture: ${architecture[0]} inputs, this page allows at most ${MAX_INPUT_NODES}`)
+    } else if (dataset.fixedSize && architecture[0] > MAX_TRUTH_TABLE_INPUTS) {
+      errors.push(
+        `architecture: ${architecture[0]} inputs, the ${dataset.label} truth table allows at most ` +
+          `${MAX_TRUTH_TABLE_INPUTS} (pick another dataset first)`,
+      )
+    }
+    if (
+      dataset.uploaded &&
+      (architecture[0] !== inputNodes || architecture[architecture.length - 1] !== outputNodes)
+    ) {
+      errors.push(
+        `architecture: ${architecture[0]} inputs and ${architecture[architecture.length - 1]} outputs, ` +
+          `the uploaded data needs ${inputNodes} and ${outputNodes} (pick another dataset first)`,
+      )
+    }
+    if (architecture[architecture.length - 1] > MAX_OUTPUT_NODES) {
+      errors.push(
+        `architecture: ${architecture[architecture.length - 1]} outputs, this page allows at most ${MAX_OUTPUT_NODES}`,
+      )
+    }
+    if (hidden.length > MAX_HIDDEN_LAYERS) {
+      errors.push(`architecture: ${hidden.length} hidden layers, this page allows at most ${MAX_HIDDEN_LAYERS}`)
+    }
+    if (hidden.some((size) => size !== hidden[0])) {
+      errors.push(`architecture: hidden layers ${hidden.join(", ")} differ in size, this page needs them equal`)
+    } else if (hidden.length > 0 && (hidden[0] < 2 || hidden[0] > MAX_NODES_PER_LAYER)) {
+      errors.push(
+        `architecture: ${hidden[0]} neurons per hidden layer, this page allows 2 to ${MAX_NODES_PER_LAYER}`,
+      )
+    }
+    if (errors.length > 0) {
+      setModelErrors(errors)
+      return
+    }
+
+    setModelErrors([])
+    setIsTraining(false)
+    const unchanged = architecture.join("-") === getNetworkArchitecture().join("-")
+    setNetworkType(hidden.length === 0 ? "perceptron" : "multilayer")
+    setInputNodes(architecture[0])
+    setOutputNodes(architecture[architecture.length - 1])
+    if (hidden.length > 0) {
+      setHiddenLayers(hidden.length)
+      setNodesPerLayer(hidden[0])
+    }
+    setHiddenActivations((prev) => prev.map((name, i) => (i < hidden.length ? model.activations[i] : name)))
+    // The perceptron always thresholds with a step, so only a multi-layer model brings its output activation
+    if (hidden.length > 0) setOutputActivation(model.activations[model.activations.length - 1])
+    setHiddenDropout((prev) => prev.map((rate, i) => (i < hidden.length ? model.dropout[i] : rate)))
+    setHiddenBatchNorm((prev) => prev.map((enabled, i) => (i < hidden.length ? model.batchNorm[i] : enabled)))
+    setL1(model.l1)
+    setL2(model.l2)
+    setLossName(model.loss)
+    const { name, learningRate: rate, ...params } = model.optimizer
+    setOptimizerName(name)
+    setLearningRate(rate)
+    setOptimizerParams(params)
+
+    // A new architecture re-initializes through the effect; otherwise do it here
+    importedModel.current = model
+    if (unchanged) initializeNetwork()
+  }
+
+  // Hand edits take effect immediately: re-run the forward pass on the displayed sample
+  const applyEdit = (edited: DenseNetwork) => {
+    const sample = samples[sampleIndex]
+    setNetwork(edited)
+    const forwarded = sample ? performForwardPass(edited, sample) : denseNodes(edited)
+    setNodes(forwarded)
+    editedSinceRun.current = true
+    const selected = forwarded.find((node) => node.id === selectedNeuron?.id)
+    if (selected) handleNeuronClick(selected)
+  }
+
+  const editBias = (node: NetworkNode, bias: number) => {
+    if (!network || node.layer === 0 || !Number.isFinite(bias)) return
+    applyEdit(
+      updateLayer(network, node.layer - 1, ({ biases }) => ({
+        biases: biases.map((b, j) => (j === node.position ? bias : b)),
+      })),
+    )
+  }
+
+  const editConnection = (index: number, changes: { weight?: number; frozen?: boolean }) => {
+    const place = network && findConnection(network, index)
+    if (!place || (changes.weight !== undefined && !Number.isFinite(changes.weight))) return
+    const { weight, frozen } = changes
+    applyEdit(
+      updateLayer(network, place.layer, ({ weights, fixed }) => ({
+        weights: weights.map((w, k) => (k === place.slot && weight !== undefined ? weight : w)),
+        fixed: fixed.map((f, k) => (k === place.slot && frozen !== undefined ? Number(frozen) : f)),
+      })),
+    )
+  }
+
+  const handleConnectionClick = (index: number) => {
+    setSelectedConnection(index)
+    setSelectedNeuron(null)
+    setNeuronInfo(null)
+    setTrace(null)
+  }
+
   const handleNeuronClick = (node: NetworkNode) => {
     setSelectedNeuron(node)
+    setSelectedConnection(null)
 
     let title = ""
     if (node.layer === 0) {
@@ -254,6 +751,21 @@ export default function ANNSimulation() {
       { label: "Node ID", value: node.id },
     ]
 
+    if (node.gradient !== undefined) {
+      details.push({ label: "|∂L/∂b| (last epoch)", value: node.gradient.toExponential(2) })
+    }
+    if (node.batchNorm) {
+      details.push(
+        { label: "BN Scale (γ)", value: node.batchNorm.gamma.toFixed(4) },
+        { label: "BN Shift (β)", value: node.batchNorm.beta.toFixed(4) },
+        { label: "BN Running Mean", value: node.batchNorm.runningMean.toFixed(4) },
+        { label: "BN Running Var", value: node.batchNorm.runningVariance.toFixed(4) },
+      )
+    }
+    if (node.dropped) {
+      details.push({ label: "Dropout", value: "dropped on this pass" })
+    }
+
     if (node.input !== undefined) {
       details.splice(3, 0, { label: "Input Value", value: node.input.toFixed(4) })
     }
@@ -261,8 +773,114 @@ export default function ANNSimulation() {
     setNeuronInfo({ title, details })
   }
 
-  const currentMetrics = metrics[metrics.length - 1]
+  // After an early stop the network holds the best epoch's weights, so its scores are the current ones
+  const currentMetrics = earlyStop?.best ?? metrics[metrics.length - 1]
+  const hasValidation = split.validation.length > 0
+  const maxEpochBatchLoss = Math.max(1e-9, ...epochBatchLosses)
+
+  // The held-out test set is only scored once training is paused or finished
+  const testMetrics = useMemo(
+    () =>
+      !isTraining && network && metrics.length > 0 && split.test.length > 0
+        ? evaluateDense(network, split.test, engineConfig)
+        : null,
+    [isTraining, metrics.length, split.test, network, engineConfig],
+  )
+  // Confusion matrix and curves for the current weights, so they follow training epoch by epoch
+  const evaluationSet = evaluationSplit === "validation" && hasValidation ? "validation" : "train"
+  const evaluation = useMemo(() => {
+    const evaluated = split[evaluationSet]
+    if (!network || dataset.task !== "classification" || metrics.length === 0 || evaluated.length === 0) {
+      return null
+    }
+    const outputs = predictDense(
+      network,
+      evaluated.map((sample) => sample.input),
+      engineConfig,
+    )
+    return evaluateClassifier(
+      outputs,
+      evaluated.map((sample) => sample.target),
+    )
+  }, [dataset, metrics.length, split, evaluationSet, network, engineConfig])
+  // The schedule laid out over the whole run (reduce-on-plateau can only cut below this once training starts)
+  const plannedRates = useMemo(
+    () =>
+      Array.from({ length: maxEpochs }, (_, epoch) =>
+        scheduledLearningRate(learningRate, epoch, maxEpochs, scheduleName, scheduleParams),
+      ),
+    [learningRate, maxEpochs, scheduleName, scheduleParams],
+  )
+  // Live copies of the selected neuron and connection, so edits and training show up in the panels
+  const selectedNode = nodes.find((node) => node.id === selectedNeuron?.id)
+  const selectedPlace = network && selectedConnection !== null ? findConnection(network, selectedConnection) : null
+  const selectedLink =
+    network && selectedPlace ? denseConnection(network, selectedPlace.layer, selectedPlace.slot) : undefined
+
+  // What the current step touches, and which neurons already have their forward value
+  const traceStep = trace ? trace.steps[trace.index] : null
+  const tracedNodes = new Set<string>()
+  const tracedConnections = new Set<number>()
+  const revealedNodes = new Set(nodes.filter((node) => node.layer === 0).map((node) => node.id))
+  if (trace && traceStep) {
+    trace.steps.slice(0, trace.index + 1).forEach((step) => {
+      if (step.kind === "activation") revealedNodes.add(step.node)
+    })
+    if (traceStep.kind === "sum") {
+      tracedNodes.add(traceStep.node)
+      traceStep.terms.forEach((term) => tracedConnections.add(term.connection))
+    } else if (traceStep.kind === "activation") {
+      tracedNodes.add(traceStep.node)
+    } else if (traceStep.kind === "loss") {
+      traceStep.nodes.forEach((id) => tracedNodes.add(id))
+    } else {
+      traceStep.deltas.forEach(({ node }) => tracedNodes.add(node))
+      traceStep.weights.forEach(({ connection }) => tracedConnections.add(connection))
+    }
+  }
+  const maxConnectionGradient =
+    network?.layers.reduce((max, layer) => layer.weightGradients.reduce((m, g) => Math.max(m, g), max), 1e-12) ??
+    1e-12
+  // Reduced rather than spread: a wide network has more neurons than a call can take arguments
+  const maxNodeGradient = nodes.reduce((max, node) => Math.max(max, node.gradient ?? 0), 1e-12)
   const architecture = getNetworkArchitecture()
+  const activationSummary = describeActivations(layerActivations)
+  const plottedActivation = layerActivations[Math.min(plottedLayer, layerActivations.length) - 1]
+  const plotted = activationFunctions[plottedActivation]
+  const showDecisionBoundary =
+    architecture[0] === 2 && dataset.task === "classification" && samples.length > 0
+  const perceptronDone = networkType === "perceptron" && perceptronProgress.outcome !== null
+  const perceptronOutcome = networkType === "perceptron" ? perceptronProgress.outcome : null
+
+  // Shrink neurons around their centres so a wide layer still fits the diagram
+  const nodeScale = Math.min(1, 8 / Math.max(1, ...architecture))
+  const largeNetwork = Math.max(...architecture) > SVG_NODE_LIMIT
+  const weightCount = network?.layers.reduce((sum, layer) => sum + layer.weights.length, 0) ?? 0
+  // The perceptron highlights the weights its latest correction moved, backpropagation the ones that carried
+  // gradient last epoch
+  const isConnectionActive = useCallback(
+    (layer: number, slot: number) => {
+      const dense = network?.layers[layer]
+      if (!dense) return false
+      const before = networkType === "perceptron" ? perceptronProgress.lastUpdate?.before : undefined
+      return before
+        ? before[Math.floor(slot / dense.inputs)].weights[slot % dense.inputs] !== dense.weights[slot]
+        : dense.weightGradients[slot] >= ACTIVE_GRADIENT_FRACTION * maxConnectionGradient
+    },
+    [network, networkType, perceptronProgress, maxConnectionGradient],
+  )
+  // Every connection of the SVG diagram; the canvas reads a wide network's weights straight from its matrices
+  const drawnConnections = useMemo(() => {
+    const drawn: { index: number; connection: NetworkConnection }[] = []
+    if (!network || largeNetwork) return drawn
+    network.layers.forEach((layer, k) =>
+      layer.connections.forEach((index, slot) => {
+        if (index < 0) return
+        drawn.push({ index, connection: { ...denseConnection(network, k, slot), active: isConnectionActive(k, slot) } })
+      }),
+    )
+    return drawn
+  }, [network, largeNetwork, isConnectionActive])
 
   // Calculate positions for nodes
   const getNodePosition = (layer: number, position: number, totalNodes: number) => {
@@ -300,7 +918,7 @@ export default function ANNSimulation() {
               <h1 className="text-xl font-semibold text-white">Neural Network Simulator</h1>
               <div className="ml-2 px-2 py-1 text-xs bg-blue-900 text-blue-200 rounded">
                 {networkType === "perceptron" ? "Perceptron" : `${architecture.join("-")} Network`} •{" "}
-                {activationFunction.toUpperCase()}
+                {activationSummary}
               </div>
             </div>
           </div>
@@ -314,17 +932,30 @@ export default function ANNSimulation() {
               <span>
                 Epoch {currentEpoch}/{maxEpochs}
               </span>
-              <span>Loss {currentMetrics?.loss.toFixed(3) || "0.500"}</span>
-              <span>Accuracy {currentMetrics ? (currentMetrics.accuracy * 100).toFixed(1) : "75.0"}%</span>
+              <span>Loss {currentMetrics ? currentMetrics.loss.toFixed(3) : "—"}</span>
+              <span>Accuracy {currentMetrics ? `${(currentMetrics.accuracy * 100).toFixed(1)}%` : "—"}</span>
             </div>
             <button
               onClick={toggleTraining}
-              disabled={currentEpoch >= maxEpochs}
+              disabled={currentEpoch >= maxEpochs || perceptronDone}
               className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600"
             >
               {isTraining ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
               {isTraining ? "Pause" : "Train"}
             </button>
+            <button
+              onClick={stepTrace}
+              disabled={isTraining || samples.length === 0 || perceptronDone}
+              title={
+                networkType === "perceptron"
+                  ? "Present samples until the next mistake and correct it"
+                  : "Walk through one sample's forward and backward pass, one operation at a time"
+              }
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-orange-600 text-white rounded hover:bg-orange-700 disabled:bg-gray-600"
+            >
+              <StepForward className="h-4 w-4" />
+              {trace ? "Next" : "Step"}
+            </button>
             <button
               onClick={resetSimulation}
               className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
@@ -383,10 +1014,10 @@ export default function ANNSimulation() {
                   <input
                     type="range"
                     min={1}
-                    max={6}
+                    max={dataset.fixedSize ? MAX_TRUTH_TABLE_INPUTS : MAX_INPUT_NODES}
                     value={inputNodes}
                     onChange={(e) => setInputNodes(Number(e.target.value))}
-                    disabled={isTraining}
+                    disabled={isTraining || dataset.uploaded}
                     className="w-full accent-blue-500"
                   />
                 </div>
@@ -400,7 +1031,7 @@ export default function ANNSimulation() {
                       <input
                         type="range"
                         min={1}
-                        max={4}
+                        max={MAX_HIDDEN_LAYERS}
                         value={hiddenLayers}
                         onChange={(e) => setHiddenLayers(Number(e.target.value))}
                         disabled={isTraining}
@@ -415,7 +1046,7 @@ export default function ANNSimulation() {
                       <input
                         type="range"
                         min={2}
-                        max={8}
+                        max={MAX_NODES_PER_LAYER}
                         value={nodesPerLayer}
                         onChange={(e) => setNodesPerLayer(Number(e.target.value))}
                         disabled={isTraining}
@@ -430,40 +1061,364 @@ export default function ANNSimulation() {
                   <input
                     type="range"
                     min={1}
-                    max={4}
+                    max={MAX_OUTPUT_NODES}
                     value={outputNodes}
                     onChange={(e) => setOutputNodes(Number(e.target.value))}
-                    disabled={isTraining}
+                    disabled={isTraining || dataset.uploaded}
                     className="w-full accent-blue-500"
                   />
+                  {dataset.uploaded && (
+                    <p className="mt-1 text-xs text-gray-500">Input and output sizes follow the uploaded data.</p>
+                  )}
+                </div>
+
+                <div className="pt-2 border-t border-gray-700">
+                  <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-3">
+                    <Activity className="h-4 w-4" />
+                    Layer Activations
+                  </h4>
+                  {networkType === "perceptron" && (
+                    <p className="text-xs text-gray-400">
+                      Rosenblatt&apos;s perceptron fires 1 when w·x + b ≥ 0 and 0 otherwise, so its output layer
+                      always uses the step function.
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    {networkType === "multilayer" &&
+                      layerActivations.map((name, index) => {
+                        const layer = index + 1
+                        const isOutput = layer === architecture.length - 1
+                        return (
+                          <div key={layer} className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-gray-300">{layerLabel(layer, architecture.length)}</span>
+                            <select
+                              value={name}
+                              onChange={(e) => {
+                                const value = e.target.value as ActivationName
+                                if (isOutput) {
+                                  setOutputActivation(value)
+                                } else {
+                                  setHiddenActivations((prev) =>
+                                    prev.map((prevName, i) => (i === index ? value : prevName)),
+                                  )
+                                }
+                              }}
+                              disabled={isTraining}
+                              className="w-36 p-1 text-sm border border-gray-600 rounded bg-gray-700 text-white"
+                            >
+                              {(Object.keys(activationFunctions) as ActivationName[])
+                                .filter((option) => option !== "softmax" || architecture[layer] > 1)
+                                .map((option) => (
+                                  <option key={option} value={option}>
+                                    {activationFunctions[option].label}
+                                  </option>
+                                ))}
+                            </select>
+                          </div>
+                        )
+                      })}
+                  </div>
                 </div>
               </div>
             </div>
 
-            {/* Activation Function */}
+            {/* Weight Initialization */}
             <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
               <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
-                <Activity className="h-5 w-5" />
-                Activation Function
+                <Sprout className="h-5 w-5" />
+                Initialization
               </h3>
-              <select
-                value={activationFunction}
-                onChange={(e) => setActivationFunction(e.target.value as keyof typeof activationFunctions)}
-                disabled={isTraining}
-                className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
-              >
-                <option value="sigmoid">Sigmoid</option>
-                <option value="relu">ReLU</option>
-                <option value="tanh">Tanh</option>
-                <option value="leaky_relu">Leaky ReLU</option>
-                <option value="linear">Linear</option>
-              </select>
+              <div className="space-y-3">
+                <select
+                  value={initializerName}
+                  onChange={(e) => setInitializerName(e.target.value as InitializerName)}
+                  disabled={isTraining}
+                  className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                >
+                  {(Object.keys(initializers) as InitializerName[]).map((name) => (
+                    <option key={name} value={name}>
+                      {initializers[name].label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400">{initializers[initializerName].description}</p>
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium text-gray-300">Seed</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={seed}
+                    onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    disabled={isTraining}
+                    className="flex-1 p-1 text-sm border border-gray-600 rounded bg-gray-700 text-white font-mono"
+                  />
+                  <button
+                    onClick={() => setSeed(Math.floor(Math.random() * 100000))}
+                    disabled={isTraining}
+                    title="Random seed"
+                    className="p-1.5 text-gray-300 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    <Dices className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
             </div>
 
+            {/* Loss Function */}
+            {networkType === "multilayer" && (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+                  <Target className="h-5 w-5" />
+                  Loss Function
+                </h3>
+                <div className="space-y-3">
+                  <select
+                    value={lossName}
+                    onChange={(e) => setLossName(e.target.value as LossName)}
+                    disabled={isTraining}
+                    className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                  >
+                    {(Object.keys(lossFunctions) as LossName[]).map((name) => (
+                      <option key={name} value={name}>
+                        {lossFunctions[name].label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-400 font-mono">{lossFunctions[lossName].formula}</p>
+                </div>
+              </div>
+            )}
+
+            {/* Dataset */}
+            <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
+              <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+                <Database className="h-5 w-5" />
+                Dataset
+              </h3>
+              <div className="space-y-4">
+                <div>
+                  <select
+                    value={datasetName}
+                    onChange={(e) => {
+                      const name = e.target.value as DatasetName | "custom"
+                      setDatasetName(name)
+                      if (name !== "custom" && datasets[name].fixedSize) {
+                        setInputNodes((n) => Math.min(n, MAX_TRUTH_TABLE_INPUTS))
+                      }
+                      if (name === "custom" && uploaded) fitToData(uploaded.data)
+                    }}
+                    disabled={isTraining}
+                    className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                  >
+                    {(Object.keys(datasets) as DatasetName[]).map((name) => (
+                      <option key={name} value={name}>
+                        {datasets[name].label}
+                      </option>
+                    ))}
+                    {customDataset && <option value="custom">Uploaded: {customDataset.label}</option>}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-400">{dataset.description}</p>
+                </div>
+
+                <div className="pt-3 border-t border-gray-700 text-gray-300">
+                  <div className="text-sm font-medium mb-2">Your Own Data</div>
+                  <CsvImport
+                    onLoad={loadCsv}
+                    maxFeatures={MAX_INPUT_NODES}
+                    maxClasses={MAX_OUTPUT_NODES}
+                    disabled={isTraining}
+                  />
+                </div>
+
+                {!dataset.fixedSize && !dataset.uploaded && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Samples: {sampleCount}</label>
+                    <input
+                      type="range"
+                      min={20}
+                      max={500}
+                      step={10}
+                      value={sampleCount}
+                      onChange={(e) => setSampleCount(Number(e.target.value))}
+                      disabled={isTraining}
+                      className="w-full accent-blue-500"
+                    />
+                  </div>
+                )}
+
+                {!dataset.fixedSize && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">
+                        Validation Split: {Math.round(validationRatio * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={0.4}
+                        step={0.05}
+                        value={validationRatio}
+                        onChange={(e) => setValidationRatio(Number(e.target.value))}
+                        disabled={isTraining}
+                        className="w-full accent-blue-500"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">
+                        Test Split: {Math.round(testRatio * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={0.4}
+                        step={0.05}
+                        value={testRatio}
+                        onChange={(e) => setTestRatio(Number(e.target.value))}
+                        disabled={isTraining}
+                        className="w-full accent-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {!dataset.uploaded && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      Noise: {datasetNoise.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={0.5}
+                      step={0.01}
+                      value={datasetNoise}
+                      onChange={(e) => setDatasetNoise(Number(e.target.value))}
+                      disabled={isTraining}
+                      className="w-full accent-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Regularization */}
+            {networkType === "multilayer" && (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
+                <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+                  <Shield className="h-5 w-5" />
+                  Regularization
+                </h3>
+                <div className="space-y-4">
+                  {networkType === "multilayer" &&
+                    Array.from({ length: hiddenLayers }, (_, index) => (
+                      <div key={index}>
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="text-sm font-medium text-gray-300">
+                            {layerLabel(index + 1, architecture.length)} Dropout: {hiddenDropout[index].toFixed(2)}
+                          </label>
+                          <label className="flex items-center gap-1 text-xs text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={hiddenBatchNorm[index]}
+                              onChange={(e) =>
+                                setHiddenBatchNorm((prev) =>
+                                  prev.map((enabled, i) => (i === index ? e.target.checked : enabled)),
+                                )
+                              }
+                              disabled={isTraining}
+                              className="accent-purple-500"
+                            />
+                            Batch norm
+                          </label>
+                        </div>
+                        <input
+                          type="range"
+                          min={0}
+                          max={0.8}
+                          step={0.05}
+                          value={hiddenDropout[index]}
+                          onChange={(e) =>
+                            setHiddenDropout((prev) =>
+                              prev.map((rate, i) => (i === index ? Number(e.target.value) : rate)),
+                            )
+                          }
+                          disabled={isTraining}
+                          className="w-full accent-purple-500"
+                        />
+                      </div>
+                    ))}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      L1 Weight Decay: {l1.toFixed(4)}
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={0.01}
+                      step={0.0005}
+                      value={l1}
+                      onChange={(e) => setL1(Number(e.target.value))}
+                      disabled={isTraining}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">
+                      L2 Weight Decay: {l2.toFixed(4)}
+                    </label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={0.05}
+                      step={0.001}
+                      value={l2}
+                      onChange={(e) => setL2(Number(e.target.value))}
+                      disabled={isTraining}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+
+                  <p className="text-xs text-gray-400">
+                    Dropout silences random hidden neurons on every training pass (greyed out in the network view).
+                    Batch norm standardizes each neuron over the mini-batch before its activation. L1 pushes weights
+                    to exactly zero, L2 shrinks them in proportion to their size.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Training Controls */}
             <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
               <h3 className="text-lg font-semibold text-white mb-4">Training</h3>
               <div className="space-y-4">
+                {networkType === "perceptron" ? (
+                  <p className="text-xs text-gray-400">
+                    Rosenblatt&apos;s rule: after each misclassified sample, w ← w + η(t − y)x and
+                    b ← b + η(t − y). Samples are presented in order; the loss chart shows the share of them corrected
+                    in each epoch.
+                  </p>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Optimizer</label>
+                    <select
+                      value={optimizerName}
+                      onChange={(e) => changeOptimizer(e.target.value as OptimizerName)}
+                      disabled={isTraining}
+                      className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                    >
+                      {(Object.keys(optimizers) as OptimizerName[]).map((name) => (
+                        <option key={name} value={name}>
+                          {optimizers[name].label}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-2 text-xs text-gray-400">{optimizers[optimizerName].description}</p>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">
                     Learning Rate: {learningRate.toFixed(3)}
@@ -471,7 +1426,7 @@ export default function ANNSimulation() {
                   <input
                     type="range"
                     min={0.001}
-                    max={0.1}
+                    max={1}
                     step={0.001}
                     value={learningRate}
                     onChange={(e) => setLearningRate(Number(e.target.value))}
@@ -480,6 +1435,79 @@ export default function ANNSimulation() {
                   />
                 </div>
 
+                {networkType === "multilayer" && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">Learning Rate Schedule</label>
+                      <select
+                        value={scheduleName}
+                        onChange={(e) => setScheduleName(e.target.value as ScheduleName)}
+                        disabled={isTraining}
+                        className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                      >
+                        {(Object.keys(schedules) as ScheduleName[]).map((name) => (
+                          <option key={name} value={name}>
+                            {schedules[name].label}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-2 text-xs text-gray-400">{schedules[scheduleName].description}</p>
+                    </div>
+
+                    {schedules[scheduleName].parameters.map((control) => (
+                      <div key={control.key}>
+                        <label className="block text-sm font-medium text-gray-300 mb-1">
+                          {control.label}: {scheduleParams[control.key]}
+                        </label>
+                        <input
+                          type="range"
+                          min={control.min}
+                          max={control.max}
+                          step={control.step}
+                          value={scheduleParams[control.key]}
+                          onChange={(e) =>
+                            setScheduleParams((prev) => ({ ...prev, [control.key]: Number(e.target.value) }))
+                          }
+                          disabled={isTraining}
+                          className="w-full accent-green-500"
+                        />
+                      </div>
+                    ))}
+
+                    {scheduleName !== "constant" && (
+                      <LineChart
+                        height={100}
+                        yMin={0}
+                        formatY={formatRate}
+                        series={[{ label: "Planned η per epoch", color: "#a855f7", values: plannedRates }]}
+                      />
+                    )}
+
+                    {optimizers[optimizerName].hyperparameters.map((control) => (
+                      <div key={control.key}>
+                        <label className="block text-sm font-medium text-gray-300 mb-1">
+                          {control.label}:{" "}
+                          {control.key === "epsilon"
+                            ? optimizerParams[control.key].toExponential(0)
+                            : optimizerParams[control.key]}
+                        </label>
+                        <input
+                          type="range"
+                          min={control.min}
+                          max={control.max}
+                          step={control.step}
+                          value={optimizerParams[control.key]}
+                          onChange={(e) =>
+                            setOptimizerParams((prev) => ({ ...prev, [control.key]: Number(e.target.value) }))
+                          }
+                          disabled={isTraining}
+                          className="w-full accent-green-500"
+                        />
+                      </div>
+                    ))}
+                  </>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">Max Epochs: {maxEpochs}</label>
                   <input
@@ -494,6 +1522,83 @@ export default function ANNSimulation() {
                   />
                 </div>
 
+                {networkType === "multilayer" && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">Batch Size</label>
+                      <select
+                        value={batchMode}
+                        onChange={(e) => setBatchMode(e.target.value as "full" | "mini" | "stochastic")}
+                        disabled={isTraining}
+                        className="w-full p-2 border border-gray-600 rounded bg-gray-700 text-white"
+                      >
+                        <option value="full">Full batch ({split.train.length})</option>
+                        <option value="mini">Mini-batch</option>
+                        <option value="stochastic">Stochastic (1)</option>
+                      </select>
+                    </div>
+
+                    {batchMode === "mini" && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-1">
+                          Mini-batch Size: {miniBatchSize}
+                        </label>
+                        <input
+                          type="range"
+                          min={2}
+                          max={64}
+                          value={miniBatchSize}
+                          onChange={(e) => setMiniBatchSize(Number(e.target.value))}
+                          disabled={isTraining}
+                          className="w-full accent-green-500"
+                        />
+                      </div>
+                    )}
+
+                    <label className="flex items-center text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={shuffleEachEpoch}
+                        onChange={(e) => setShuffleEachEpoch(e.target.checked)}
+                        disabled={isTraining}
+                        className="mr-2"
+                      />
+                      Shuffle every epoch
+                    </label>
+
+                    {hasValidation && (
+                      <div className="space-y-2">
+                        <label className="flex items-center text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={earlyStopping}
+                            onChange={(e) => setEarlyStopping(e.target.checked)}
+                            disabled={isTraining}
+                            className="mr-2"
+                          />
+                          Early stopping on validation loss
+                        </label>
+                        {earlyStopping && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1">
+                              Patience: {patience} epochs
+                            </label>
+                            <input
+                              type="range"
+                              min={1}
+                              max={50}
+                              value={patience}
+                              onChange={(e) => setPatience(Number(e.target.value))}
+                              disabled={isTraining}
+                              className="w-full accent-green-500"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-1">
                     Training Speed: {trainingSpeed}ms
@@ -512,6 +1617,113 @@ export default function ANNSimulation() {
               </div>
             </div>
 
+            {/* Save / Load */}
+            <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
+              <h3 className="flex items-center gap-2 text-lg font-semibold text-white mb-4">
+                <Save className="h-5 w-5" />
+                Model File
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={exportModel}
+                  disabled={isTraining || nodes.length === 0}
+                  className="flex flex-1 items-center justify-center gap-1 px-3 py-1.5 text-sm bg-gray-700 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                >
+                  <Download className="h-4 w-4" />
+                  Export JSON
+                </button>
+                <label
+                  className={`flex flex-1 items-center justify-center gap-1 px-3 py-1.5 text-sm bg-gray-700 text-white rounded ${
+                    isTraining ? "opacity-50" : "cursor-pointer hover:bg-gray-600"
+                  }`}
+                >
+                  <Upload className="h-4 w-4" />
+                  Import JSON
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    disabled={isTraining}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) importModel(file)
+                      // Allow picking the same file again after fixing it
+                      e.target.value = ""
+                    }}
+                  />
+                </label>
+              </div>
+              <p className="mt-2 text-xs text-gray-400">
+                Saves the architecture, activations, weights, biases, optimizer state and training history.
+              </p>
+              {modelErrors.length > 0 && (
+                <div className="mt-3 p-2 text-xs bg-red-900/30 border border-red-700 rounded text-red-200">
+                  <div className="font-semibold mb-1">Could not load the model:</div>
+                  <ul className="list-disc pl-4 space-y-0.5 font-mono">
+                    {modelErrors.slice(0, 8).map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                  {modelErrors.length > 8 && <div className="mt-1">…and {modelErrors.length - 8} more</div>}
+                </div>
+              )}
+            </div>
+
+            {/* Connection Editor */}
+            {selectedLink && (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
+                <h3 className="text-lg font-semibold text-white mb-4">
+                  Connection {nodeLabel(selectedLink.from, architecture.length)} →{" "}
+                  {nodeLabel(selectedLink.to, architecture.length)}
+                </h3>
+                <div className="space-y-3">
+                  <label className="flex items-center justify-between text-sm font-medium text-gray-300">
+                    Weight
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={Number(selectedLink.weight.toFixed(4))}
+                      onChange={(e) => editConnection(selectedConnection!, { weight: Number(e.target.value) })}
+                      disabled={isTraining}
+                      className="w-24 p-1 text-sm border border-gray-600 rounded bg-gray-700 text-white font-mono"
+                    />
+                  </label>
+                  <input
+                    type="range"
+                    min={-5}
+                    max={5}
+                    step={0.05}
+                    value={selectedLink.weight}
+                    onChange={(e) => editConnection(selectedConnection!, { weight: Number(e.target.value) })}
+                    disabled={isTraining}
+                    className="w-full accent-yellow-500"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedLink.frozen === true}
+                      onChange={(e) => editConnection(selectedConnection!, { frozen: e.target.checked })}
+                      disabled={isTraining}
+                      className="accent-yellow-500"
+                    />
+                    Freeze (training leaves this weight alone)
+                  </label>
+                  {selectedLink.gradient !== undefined && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">|∂L/∂w| (last epoch):</span>
+                      <span className="text-white font-mono">{selectedLink.gradient.toExponential(2)}</span>
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setSelectedConnection(null)}
+                  className="mt-3 text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Clear Selection
+                </button>
+              </div>
+            )}
+
             {/* Neuron Information Panel */}
             {neuronInfo && (
               <div className="bg-gray-800 rounded-lg border border-gray-700 p-4">
@@ -524,10 +1736,36 @@ export default function ANNSimulation() {
                     </div>
                   ))}
                 </div>
+                {selectedNode && selectedNode.layer > 0 && (
+                  <div className="mt-4 pt-3 border-t border-gray-700">
+                    <label className="flex items-center justify-between text-sm font-medium text-gray-300 mb-1">
+                      Edit Bias
+                      <input
+                        type="number"
+                        step={0.1}
+                        value={Number(selectedNode.bias.toFixed(4))}
+                        onChange={(e) => editBias(selectedNode, Number(e.target.value))}
+                        disabled={isTraining}
+                        className="w-24 p-1 text-sm border border-gray-600 rounded bg-gray-700 text-white font-mono"
+                      />
+                    </label>
+                    <input
+                      type="range"
+                      min={-5}
+                      max={5}
+                      step={0.05}
+                      value={selectedNode.bias}
+                      onChange={(e) => editBias(selectedNode, Number(e.target.value))}
+                      disabled={isTraining}
+                      className="w-full accent-yellow-500"
+                    />
+                  </div>
+                )}
                 <button
                   onClick={() => {
                     setSelectedNeuron(null)
                     setNeuronInfo(null)
+                    setTrace(null)
                   }}
                   className="mt-3 text-xs text-blue-400 hover:text-blue-300"
                 >
@@ -546,169 +1784,258 @@ export default function ANNSimulation() {
                   {networkType === "perceptron" ? "Single Layer Perceptron" : "Multi-Layer Neural Network"}
                 </h2>
                 <div className="ml-2 px-2 py-1 text-xs bg-gray-700 text-gray-300 rounded">
-                  {architecture.join("-")} • {activationFunction.toUpperCase()}
+                  {architecture.join("-")} • {activationSummary}
+                </div>
+                <div className="ml-auto flex rounded overflow-hidden border border-gray-600 text-xs">
+                  {(["weights", "gradients"] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setNetworkView(view)}
+                      className={`px-2 py-1 ${
+                        networkView === view ? "bg-blue-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                      }`}
+                    >
+                      {view === "weights" ? "Weights" : "Gradients"}
+                    </button>
+                  ))}
                 </div>
               </div>
 
               <div className="relative h-96 bg-gray-900 rounded-lg overflow-hidden p-4">
-                <svg className="w-full h-full" viewBox="0 0 800 350">
-                  {/* Layer Labels */}
-                  {architecture.map((_, layerIndex) => {
-                    const { x } = getNodePosition(layerIndex, 0, 1)
-                    const labelY = 20
-                    let label = ""
-
-                    if (layerIndex === 0) label = "Input Layer"
-                    else if (layerIndex === architecture.length - 1) label = "Output Layer"
-                    else label = `Hidden Layer ${layerIndex}`
-
-                    return (
-                      <text
-                        key={layerIndex}
-                        x={x}
-                        y={labelY}
-                        textAnchor="middle"
-                        className="text-sm font-medium fill-gray-300"
-                      >
-                        {label}
-                      </text>
-                    )
-                  })}
-
-                  {/* Connections */}
-                  {connections.map((conn, index) => {
-                    const fromNode = nodes.find((n) => n.id === conn.from)
-                    const toNode = nodes.find((n) => n.id === conn.to)
+                {largeNetwork && network ? (
+                  <NetworkCanvas
+                    network={network}
+                    nodes={nodes}
+                    view={networkView}
+                    selectedNeuron={selectedNeuron?.id}
+                    selectedConnection={selectedConnection}
+                    tracedNodes={tracedNodes}
+                    tracedConnections={tracedConnections}
+                    revealedNodes={traceStep ? revealedNodes : undefined}
+                    isActive={isConnectionActive}
+                    onNeuronClick={handleNeuronClick}
+                    onConnectionClick={handleConnectionClick}
+                  />
+                ) : (
+                  <svg className="w-full h-full" viewBox="0 0 800 350">
+                    {/* Layer Labels */}
+                    {architecture.map((_, layerIndex) => {
+                      const { x } = getNodePosition(layerIndex, 0, 1)
+                      const labelY = 20
+                      let label = ""
+
+                      if (layerIndex === 0) label = "Input Layer"
+                      else if (layerIndex === architecture.length - 1) label = "Output Layer"
+                      else label = `Hidden Layer ${layerIndex}`
+
+                      return (
+                        <text
+                          key={layerIndex}
+                          x={x}
+                          y={labelY}
+                          textAnchor="middle"
+                          className="text-sm font-medium fill-gray-300"
+                        >
+                          {label}
+                        </text>
+                      )
+                    })}
 
-                    if (!fromNode || !toNode) return null
+                    {/* Connections */}
+                    {drawnConnections.map(({ index, connection: conn }) => {
+                      const fromNode = nodes.find((n) => n.id === conn.from)
+                      const toNode = nodes.find((n) => n.id === conn.to)
 
-                    const fromPos = getNodePosition(
-                      fromNode.layer,
-                      fromNode.position,
-                      architecture[fromNode.layer] || 1,
-                    )
-                    const toPos = getNodePosition(toNode.layer, toNode.position, architecture[toNode.layer] || 1)
+                      if (!fromNode || !toNode) return null
 
-                    if (isNaN(fromPos.x) || isNaN(fromPos.y) || isNaN(toPos.x) || isNaN(toPos.y)) {
-                      return null
-                    }
+                      const fromPos = getNodePosition(
+                        fromNode.layer,
+                        fromNode.position,
+                        architecture[fromNode.layer] || 1,
+                      )
+                      const toPos = getNodePosition(toNode.layer, toNode.position, architecture[toNode.layer] || 1)
 
-                    const strokeColor = conn.weight > 0 ? "#10b981" : "#ef4444"
-                    const strokeWidth = Math.abs(conn.weight) * 2 + 0.5
+                      if (isNaN(fromPos.x) || isNaN(fromPos.y) || isNaN(toPos.x) || isNaN(toPos.y)) {
+                        return null
+                      }
 
-                    return (
-                      <g key={index}>
-                        {conn.active && (
+                      const gradientShare = (conn.gradient ?? 0) / maxConnectionGradient
+                      const showGradient = networkView === "gradients"
+                      const strokeColor = showGradient ? "#f97316" : conn.weight > 0 ? "#10b981" : "#ef4444"
+                      const strokeWidth = showGradient ? gradientShare * 4 + 0.5 : Math.abs(conn.weight) * 2 + 0.5
+                      // Nothing flows out of or into a neuron that dropout switched off
+                      // While stepping, only the connections used by the current operation carry a signal
+                      const isActive = traceStep
+                        ? tracedConnections.has(index)
+                        : conn.active && !fromNode.dropped && !toNode.dropped
+                      // The moving dot runs output-to-input while stepping through the backward pass
+                      const fromEdge = { x: fromPos.x + 20, y: fromPos.y }
+                      const toEdge = { x: toPos.x - 20, y: toPos.y }
+                      const [start, end] = traceStep?.kind === "backward" ? [toEdge, fromEdge] : [fromEdge, toEdge]
+
+                      return (
+                        <g key={index}>
+                          {isActive && (
+                            <line
+                              x1={fromPos.x + 20}
+                              y1={fromPos.y}
+                              x2={toPos.x - 20}
+                              y2={toPos.y}
+                              stroke={strokeColor}
+                              strokeWidth={strokeWidth + 1}
+                              opacity={0.8}
+                              filter="blur(1px)"
+                            />
+                          )}
                           <line
                             x1={fromPos.x + 20}
                             y1={fromPos.y}
                             x2={toPos.x - 20}
                             y2={toPos.y}
-                            stroke={strokeColor}
-                            strokeWidth={strokeWidth + 1}
-                            opacity={0.8}
-                            filter="blur(1px)"
+                            stroke={isActive || showGradient ? strokeColor : "#64748b"}
+                            strokeWidth={isActive || showGradient ? strokeWidth : 1}
+                            strokeDasharray={conn.frozen ? "4 3" : undefined}
+                            opacity={showGradient ? 0.15 + 0.8 * gradientShare : isActive ? 0.9 : 0.3}
                           />
-                        )}
-                        <line
-                          x1={fromPos.x + 20}
-                          y1={fromPos.y}
-                          x2={toPos.x - 20}
-                          y2={toPos.y}
-                          stroke={conn.active ? strokeColor : "#64748b"}
-                          strokeWidth={conn.active ? strokeWidth : 1}
-                          opacity={conn.active ? 0.9 : 0.3}
-                        />
-                        {conn.active && (
-                          <circle r={2} fill={strokeColor} opacity={0.9}>
-                            <animateMotion
-                              dur="1s"
-                              repeatCount="indefinite"
-                              path={`M${fromPos.x + 20},${fromPos.y} L${toPos.x - 20},${toPos.y}`}
+                          {selectedConnection === index && (
+                            <line
+                              x1={fromPos.x + 20}
+                              y1={fromPos.y}
+                              x2={toPos.x - 20}
+                              y2={toPos.y}
+                              stroke="#fbbf24"
+                              strokeWidth={3}
+                              opacity={0.8}
                             />
-                          </circle>
-                        )}
-                      </g>
-                    )
-                  })}
-
-                  {/* Nodes */}
-                  {nodes.map((node) => {
-                    const { x, y } = getNodePosition(node.layer, node.position, architecture[node.layer] || 1)
-
-                    if (isNaN(x) || isNaN(y)) {
-                      return null
-                    }
+                          )}
+                          {/* Wide invisible hit area so thin connections are easy to click */}
+                          <line
+                            x1={fromPos.x + 20}
+                            y1={fromPos.y}
+                            x2={toPos.x - 20}
+                            y2={toPos.y}
+                            stroke="transparent"
+                            strokeWidth={10}
+                            style={{ cursor: "pointer" }}
+                            onClick={() => handleConnectionClick(index)}
+                          />
+                          {isActive && (
+                            <circle r={2} fill={strokeColor} opacity={0.9}>
+                              <animateMotion
+                                dur="1s"
+                                repeatCount="indefinite"
+                                path={`M${start.x},${start.y} L${end.x},${end.y}`}
+                              />
+                            </circle>
+                          )}
+                        </g>
+                      )
+                    })}
 
-                    let nodeColor = "#06b6d4" // Default cyan for hidden
-                    if (node.layer === 0)
-                      nodeColor = "#10b981" // Input - green
-                    else if (node.layer === architecture.length - 1) nodeColor = "#84cc16" // Output - lime
+                    {/* Nodes */}
+                    {nodes.map((node) => {
+                      const { x, y } = getNodePosition(node.layer, node.position, architecture[node.layer] || 1)
 
-                    const intensity = Math.abs(node.activation)
-                    const isSelected = selectedNeuron?.id === node.id
+                      if (isNaN(x) || isNaN(y)) {
+                        return null
+                      }
 
-                    return (
-                      <g key={node.id}>
-                        {/* Selection highlight for selected neuron */}
-                        {isSelected && (
-                          <circle cx={x} cy={y} r={28} fill="none" stroke="#fbbf24" strokeWidth={3} opacity={0.8} />
-                        )}
-                        <circle
-                          cx={x}
-                          cy={y}
-                          r={22}
-                          fill={nodeColor}
-                          opacity={0.1 + intensity * 0.3}
-                          filter="blur(2px)"
-                        />
-                        <circle
-                          cx={x}
-                          cy={y}
-                          r={18}
-                          fill={nodeColor}
-                          opacity={0.2 + intensity * 0.6}
-                          stroke={isSelected ? "#fbbf24" : nodeColor}
-                          strokeWidth={isSelected ? 3 : 2}
-                          style={{ cursor: "pointer" }}
-                          onClick={() => handleNeuronClick(node)}
-                        />
-                        <text
-                          x={x}
-                          y={y + 3}
-                          textAnchor="middle"
-                          className="text-xs font-bold fill-white pointer-events-none"
-                        >
-                          {node.activation.toFixed(2)}
-                        </text>
-                        <text
-                          x={x}
-                          y={y + 35}
-                          textAnchor="middle"
-                          className="text-xs fill-gray-400 pointer-events-none"
+                      let nodeColor = "#06b6d4" // Default cyan for hidden
+                      if (node.dropped)
+                        nodeColor = "#4b5563" // Dropped out - grey
+                      else if (node.layer === 0)
+                        nodeColor = "#10b981" // Input - green
+                      else if (node.layer === architecture.length - 1) nodeColor = "#84cc16" // Output - lime
+
+                      // In gradient view, brightness follows the bias gradient relative to the largest one
+                      const intensity =
+                        networkView === "gradients" && node.gradient !== undefined
+                          ? node.gradient / maxNodeGradient
+                          : Math.abs(node.activation)
+                      const isSelected = selectedNeuron?.id === node.id
+                      const isTraced = tracedNodes.has(node.id)
+
+                      return (
+                        <g
+                          key={node.id}
+                          transform={`translate(${x} ${y}) scale(${nodeScale}) translate(${-x} ${-y})`}
                         >
-                          {node.layer === 0
-                            ? `i${node.position}`
-                            : node.layer === architecture.length - 1
-                              ? `o${node.position}`
-                              : `h${node.layer}-${node.position}`}
-                        </text>
-                        {node.layer > 0 && (
+                          {/* Selection highlight for selected neuron, or the one the current step works on */}
+                          {(isSelected || isTraced) && (
+                            <circle
+                              cx={x}
+                              cy={y}
+                              r={28}
+                              fill="none"
+                              stroke={isTraced ? "#f97316" : "#fbbf24"}
+                              strokeWidth={3}
+                              opacity={0.8}
+                            />
+                          )}
+                          <circle
+                            cx={x}
+                            cy={y}
+                            r={22}
+                            fill={nodeColor}
+                            opacity={0.1 + intensity * 0.3}
+                            filter="blur(2px)"
+                          />
+                          <circle
+                            cx={x}
+                            cy={y}
+                            r={18}
+                            fill={nodeColor}
+                            opacity={0.2 + intensity * 0.6}
+                            stroke={isSelected ? "#fbbf24" : nodeColor}
+                            strokeWidth={isSelected ? 3 : 2}
+                            style={{ cursor: "pointer" }}
+                            onClick={() => handleNeuronClick(node)}
+                          />
                           <text
                             x={x}
-                            y={y - 25}
+                            y={y + 3}
                             textAnchor="middle"
-                            className="text-xs fill-gray-500 pointer-events-none"
+                            className="text-xs font-bold fill-white pointer-events-none"
                           >
-                            b: {node.bias.toFixed(2)}
+                            {traceStep && !revealedNodes.has(node.id)
+                              ? "?"
+                              : networkView === "gradients" && node.gradient !== undefined
+                                ? node.gradient.toExponential(0)
+                                : node.activation.toFixed(2)}
                           </text>
-                        )}
-                      </g>
-                    )
-                  })}
-                </svg>
+                          <text
+                            x={x}
+                            y={y + 35}
+                            textAnchor="middle"
+                            className="text-xs fill-gray-400 pointer-events-none"
+                          >
+                            {nodeLabel(node.id, architecture.length)}
+                          </text>
+                          {node.layer > 0 && (
+                            <text
+                              x={x}
+                              y={y - 25}
+                              textAnchor="middle"
+                              className="text-xs fill-gray-500 pointer-events-none"
+                            >
+                              b: {node.bias.toFixed(2)}
+                            </text>
+                          )}
+                        </g>
+                      )
+                    })}
+                  </svg>
+                )}
               </div>
 
+              {samples[sampleIndex] && (
+                <div className="mt-3 text-xs text-gray-400 font-mono">
+                  {dataset.label} sample {sampleIndex + 1}/{samples.length}: [
+                  {samples[sampleIndex].input.map((v) => v.toFixed(2)).join(", ")}] → [
+                  {samples[sampleIndex].target.map((v) => v.toFixed(2)).join(", ")}]
+                </div>
+              )}
+
               {/* Metrics Display */}
               {currentMetrics && (
                 <div className="mt-4 grid grid-cols-4 gap-4 text-center">
@@ -729,19 +2056,264 @@ export default function ANNSimulation() {
                   <div className="bg-purple-900/30 border border-purple-700 rounded-lg p-3">
                     <div className="text-sm text-purple-400">Learn Rate</div>
                     <div className="text-lg font-semibold text-purple-300">
-                      {currentMetrics.learningRate.toFixed(3)}
+                      {formatRate(currentMetrics.learningRate)}
                     </div>
                   </div>
                 </div>
               )}
             </div>
 
-            {/* Activation Function Graph - Now prominently displayed */}
+            {/* Training Progress */}
             <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
-              <h3 className="flex items-center gap-2 text-xl font-semibold text-white mb-4">
-                <TrendingUp className="h-6 w-6" />
-                Activation Function: {activationFunction.toUpperCase()}
+              <h3 className="flex items-center gap-2 text-xl font-semibold text-white mb-1">
+                <LineChartIcon className="h-6 w-6" />
+                Training Progress
               </h3>
+              <p className="text-sm text-gray-400 mb-4">
+                {split.train.length} train / {split.validation.length} validation / {split.test.length} test samples.
+                {hasValidation && " A validation loss that rises while training loss falls means overfitting."}
+              </p>
+              {metrics.length === 0 ? (
+                <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+                  Start training to plot loss and accuracy per epoch.
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <div className="text-sm text-gray-300 mb-1">Loss</div>
+                    <LineChart
+                      formatY={(v) => v.toFixed(3)}
+                      series={[
+                        { label: "Training", color: "#ef4444", values: metrics.map((m) => m.loss) },
+                        ...(hasValidation
+                          ? [
+                              {
+                                label: "Validation",
+                                color: "#f59e0b",
+                                values: metrics.map((m) => m.validationLoss),
+                                dashed: true,
+                              },
+                            ]
+                          : []),
+                      ]}
+                    />
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-300 mb-1">Learning Rate</div>
+                    <LineChart
+                      yMin={0}
+                      formatY={formatRate}
+                      series={[
+                        { label: "Effective", color: "#a855f7", values: metrics.map((m) => m.learningRate) },
+                        ...(scheduleName !== "constant" && scheduleName !== "plateau"
+                          ? [{ label: "Schedule", color: "#6b7280", values: plannedRates, dashed: true }]
+                          : []),
+                      ]}
+                    />
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-300 mb-1">Accuracy</div>
+                    <LineChart
+                      yMin={0}
+                      yMax={1}
+                      formatY={(v) => `${Math.round(v * 100)}%`}
+                      series={[
+                        { label: "Training", color: "#10b981", values: metrics.map((m) => m.accuracy) },
+                        ...(hasValidation
+                          ? [
+                              {
+                                label: "Validation",
+                                color: "#3b82f6",
+                                values: metrics.map((m) => m.validationAccuracy),
+                                dashed: true,
+                              },
+                            ]
+                          : []),
+                      ]}
+                    />
+                  </div>
+                </div>
+              )}
+              {metrics.length > 0 && (
+                <div className="mt-4">
+                  <div className="text-sm text-gray-300 mb-1">Gradient norm per layer (log scale)</div>
+                  <LineChart
+                    logScale
+                    formatY={(v) => v.toExponential(0)}
+                    series={layerActivations.map((_, index) => ({
+                      label: layerLabel(index + 1, architecture.length),
+                      color: LAYER_COLORS[index % LAYER_COLORS.length],
+                      values: metrics.map((m) => m.gradientNorms?.[index]),
+                    }))}
+                  />
+                  <p className="mt-1 text-xs text-gray-400">
+                    Layers far from the output getting orders of magnitude smaller gradients is the vanishing-gradient
+                    problem: saturating activations such as sigmoid shrink the signal at every layer it passes.
+                  </p>
+                </div>
+              )}
+              {epochBatchLosses.length > 0 && (
+                <div className="mt-4 space-y-3">
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span>
+                        Epoch {currentEpoch}: {epochBatchLosses.length} batch
+                        {epochBatchLosses.length === 1 ? "" : "es"} of up to {batchSize}
+                      </span>
+                      <span>{batchHistory.steps} optimizer steps total</span>
+                    </div>
+                    {/* One segment per optimizer step, brighter for higher batch loss */}
+                    <div className="flex h-3 gap-px rounded overflow-hidden bg-gray-900">
+                      {epochBatchLosses.slice(0, MAX_PROGRESS_SEGMENTS).map((loss, index) => (
+                        <div
+                          key={index}
+                          className="flex-1 bg-green-500"
+                          style={{ opacity: 0.3 + 0.7 * Math.min(1, loss / maxEpochBatchLoss) }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-gray-300 mb-1">Loss per batch (gradient noise)</div>
+                    <LineChart
+                      height={140}
+                      xStart={batchHistory.steps - batchHistory.losses.length + 1}
+                      formatY={(v) => v.toFixed(3)}
+                      series={[{ label: "Batch loss", color: "#a855f7", values: batchHistory.losses }]}
+                    />
+                  </div>
+                </div>
+              )}
+              {(earlyStop || testMetrics || perceptronOutcome) && (
+                <div className="mt-4 flex flex-wrap gap-4 text-sm">
+                  {perceptronOutcome?.converged && (
+                    <span className="px-2 py-1 bg-green-900/40 border border-green-700 text-green-200 rounded">
+                      Converged in epoch {perceptronOutcome.epoch} after {perceptronProgress.updates} corrections:
+                      every training sample is on the right side of the line
+                    </span>
+                  )}
+                  {perceptronOutcome && !perceptronOutcome.converged && (
+                    <span className="px-2 py-1 bg-red-900/40 border border-red-700 text-red-200 rounded">
+                      Did not converge: still {perceptronOutcome.mistakes} mistakes in epoch{" "}
+                      {perceptronOutcome.epoch} after {perceptronProgress.updates} corrections. No straight line
+                      separates this data
+                      {datasetName === "xor" ? " (XOR needs a hidden layer)" : ""}.
+                    </span>
+                  )}
+                  {earlyStop && (
+                    <span className="px-2 py-1 bg-yellow-900/40 border border-yellow-700 text-yellow-200 rounded">
+                      Early stop at epoch {earlyStop.epoch}: restored weights and scores from epoch{" "}
+                      {earlyStop.best.epoch}
+                    </span>
+                  )}
+                  {testMetrics && (
+                    <span className="px-2 py-1 bg-gray-700 text-gray-200 rounded font-mono">
+                      Test loss {testMetrics.loss.toFixed(3)} • Test accuracy{" "}
+                      {(testMetrics.accuracy * 100).toFixed(1)}%
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Evaluation */}
+            {evaluation && (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="flex items-center gap-2 text-xl font-semibold text-white">
+                    <ClipboardCheck className="h-6 w-6" />
+                    Evaluation
+                  </h3>
+                  {hasValidation && (
+                    <div className="flex rounded overflow-hidden border border-gray-600 text-xs">
+                      {(["train", "validation"] as const).map((set) => (
+                        <button
+                          key={set}
+                          onClick={() => setEvaluationSplit(set)}
+                          className={`px-2 py-1 capitalize ${
+                            evaluationSet === set
+                              ? "bg-blue-600 text-white"
+                              : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                          }`}
+                        >
+                          {set}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-gray-400 mb-4">
+                  Scored on the {split[evaluationSet].length} {evaluationSet} samples with the weights after epoch{" "}
+                  {currentEpoch}.
+                  {evaluation.curves
+                    ? " The curves sweep the decision threshold over the class-1 score; the dashed lines are a " +
+                      "classifier that guesses."
+                    : evaluation.classCount === 2
+                      ? " ROC and precision-recall curves need both classes in the scored samples."
+                      : " ROC and precision-recall curves are shown for two-class problems."}
+                </p>
+                <EvaluationPanel report={evaluation} />
+              </div>
+            )}
+
+            {/* Decision Boundary */}
+            {showDecisionBoundary && (
+              <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+                <h3 className="flex items-center gap-2 text-xl font-semibold text-white mb-1">
+                  <Grid3x3 className="h-6 w-6" />
+                  {networkType === "perceptron" ? "Separating Line" : "Decision Boundary"}
+                </h3>
+                {networkType === "perceptron" ? (
+                  <p className="text-sm text-gray-400 mb-4">
+                    Each output neuron&apos;s line w·x + b = 0, moved by every correction (the dashed line is where it
+                    was before the last one, which was made on the ringed sample). Red outlines mark the{" "}
+                    {dataset.label} training samples still misclassified.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-400 mb-4">
+                    Background shows the predicted class over the input plane (brighter = more confident), recomputed
+                    every epoch. Dots are the {dataset.label} training samples.
+                  </p>
+                )}
+                <div className="relative h-80 bg-gray-900 rounded border border-gray-600 p-2">
+                  {networkType === "perceptron" ? (
+                    <PerceptronPlot
+                      samples={split.train}
+                      lines={network ? perceptronLines(network) : []}
+                      previous={perceptronProgress.lastUpdate?.before}
+                      highlight={perceptronProgress.lastUpdate?.sample}
+                    />
+                  ) : (
+                    <DecisionBoundary
+                      samples={split.train}
+                      predict={predictInputs}
+                      // Every cell is a forward pass, so wide networks get a coarser grid
+                      resolution={weightCount > 10000 ? 20 : 40}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Activation Function Graph - Now prominently displayed */}
+            <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="flex items-center gap-2 text-xl font-semibold text-white">
+                  <TrendingUp className="h-6 w-6" />
+                  Activation Function: {plotted.label}
+                </h3>
+                <select
+                  value={Math.min(plottedLayer, layerActivations.length)}
+                  onChange={(e) => setPlottedLayer(Number(e.target.value))}
+                  className="p-1 text-sm border border-gray-600 rounded bg-gray-700 text-white"
+                >
+                  {layerActivations.map((_, index) => (
+                    <option key={index} value={index + 1}>
+                      {layerLabel(index + 1, architecture.length)}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="relative h-80 bg-gray-900 rounded border border-gray-600">
                 <svg className="w-full h-full" viewBox="0 0 400 320">
                   {/* Enhanced Grid */}
@@ -790,7 +2362,7 @@ export default function ANNSimulation() {
 
                   {/* Y-axis ticks and labels */}
                   {(() => {
-                    if (activationFunction === "sigmoid") {
+                    if (plotted.plot === "unit") {
                       return [0.2, 0.4, 0.6, 0.8, 1.0].map((val) => (
                         <g key={val}>
                           <line
@@ -806,7 +2378,7 @@ export default function ANNSimulation() {
                           </text>
                         </g>
                       ))
-                    } else if (activationFunction === "tanh") {
+                    } else if (plotted.plot === "symmetric") {
                       return [-1, -0.5, 0.5, 1].map((val) => (
                         <g key={val}>
                           <line
@@ -847,33 +2419,13 @@ export default function ANNSimulation() {
                       const points = []
                       for (let i = 0; i <= 320; i += 1) {
                         const x = (i - 160) / 40 // Map to -4 to 4 range
-                        let y
-
-                        switch (activationFunction) {
-                          case "sigmoid":
-                            y = 1 / (1 + Math.exp(-x))
-                            break
-                          case "relu":
-                            y = Math.max(0, x)
-                            break
-                          case "tanh":
-                            y = Math.tanh(x)
-                            break
-                          case "leaky_relu":
-                            y = x > 0 ? x : 0.01 * x
-                            break
-                          case "linear":
-                            y = x
-                            break
-                          default:
-                            y = 0
-                        }
+                        const y = plotted.fn(x)
 
                         // Normalize y to fit in graph
                         let plotY
-                        if (activationFunction === "sigmoid") {
+                        if (plotted.plot === "unit") {
                           plotY = 280 - y * 240 // 0-1 range
-                        } else if (activationFunction === "tanh") {
+                        } else if (plotted.plot === "symmetric") {
                           plotY = 160 - y * 120 // -1 to 1 range
                         } else {
                           plotY = 160 - Math.max(-3, Math.min(3, y)) * 40 // Clamp to -3,3 range
@@ -890,31 +2442,15 @@ export default function ANNSimulation() {
                   />
 
                   {/* Function info */}
-                  <rect x="50" y="40" width="140" height="60" rx="8" fill="#1F2937" stroke="#374151" strokeWidth="1" />
+                  <rect x="50" y="40" width="170" height="60" rx="8" fill="#1F2937" stroke="#374151" strokeWidth="1" />
                   <text x="60" y="60" className="text-lg fill-blue-400 font-bold">
-                    {activationFunction.replace("_", " ")}
+                    {plotted.label}
                   </text>
                   <text x="60" y="80" className="text-sm fill-gray-300">
-                    {activationFunction === "sigmoid"
-                      ? "f(x) = 1/(1+e^(-x))"
-                      : activationFunction === "tanh"
-                        ? "f(x) = tanh(x)"
-                        : activationFunction === "relu"
-                          ? "f(x) = max(0,x)"
-                          : activationFunction === "leaky_relu"
-                            ? "f(x) = max(0.01x,x)"
-                            : "f(x) = x"}
+                    {plotted.formula}
                   </text>
                   <text x="60" y="95" className="text-xs fill-gray-400">
-                    {activationFunction === "sigmoid"
-                      ? "Range: (0,1)"
-                      : activationFunction === "tanh"
-                        ? "Range: (-1,1)"
-                        : activationFunction === "relu"
-                          ? "Range: [0,∞)"
-                          : activationFunction === "leaky_relu"
-                            ? "Range: (-∞,∞)"
-                            : "Range: (-∞,∞)"}
+                    {plotted.range}
                   </text>
                 </svg>
               </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { ArrowLeft, Play, Pause, RotateCcw, Activity, Settings, Zap } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -11,54 +11,25 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
 import { ThemeToggle } from "@/components/theme-toggle"
 import Link from "next/link"
-
-// Types for biological neural network
-interface BiologicalNeuron {
-  id: string
-  x: number
-  y: number
-  type: "pyramidal" | "interneuron" | "motor"
-  restingPotential: number
-  currentPotential: number
-  threshold: number
-  isActive: boolean
-  lastSpikeTime: number
-  dendrites: Dendrite[]
-  axon: Axon
-}
-
-interface Dendrite {
-  id: string
-  points: { x: number; y: number }[]
-  activity: number
-}
-
-interface Axon {
-  id: string
-  points: { x: number; y: number }[]
-  terminals: { x: number; y: number; targetNeuronId: string }[]
-  signalPosition: number
-  isTransmitting: boolean
-}
-
-interface ActionPotential {
-  neuronId: string
-  startTime: number
-  position: number
-  amplitude: number
-}
-
-interface Synapse {
-  id: string
-  preNeuronId: string
-  postNeuronId: string
-  x: number
-  y: number
-  strength: number
-  neurotransmitter: "glutamate" | "gaba" | "dopamine"
-  isActive: boolean
-  lastActivation: number
-}
+import { FiringPatternPanel } from "@/components/bnn/firing-pattern-panel"
+import { GatingStrips, GATING_STRIPS_HEIGHT, type GatingSample } from "@/components/bnn/gating-strips"
+import { HodgkinHuxleyPanel } from "@/components/bnn/hodgkin-huxley-panel"
+import { SpikeRasterPanel } from "@/components/bnn/spike-raster-panel"
+import { StdpPanel, type WeightSample } from "@/components/bnn/stdp-panel"
+import { adexPresets, type AdExPresetName } from "@/lib/bnn/adex"
+import { applyCellTypes, restMembranes, stepNetwork, SPIKE_PEAK, type NetworkState } from "@/lib/bnn/engine"
+import { ionicCurrents, steadyStateGates } from "@/lib/bnn/hodgkin-huxley"
+import { izhikevichPresets, type IzhikevichPresetName } from "@/lib/bnn/izhikevich"
+import { defaultCellTypes, neuronModels, type CellTypes, type NeuronModelName } from "@/lib/bnn/models"
+import { defaultStdp, type StdpConfig } from "@/lib/bnn/stdp"
+import { synapseKinetics, synapticConductance, PEAK_CONDUCTANCE } from "@/lib/bnn/synapses"
+import type { BiologicalNeuron, Dendrite, NeuronType, SpikeEvent, Synapse } from "@/lib/bnn/types"
+
+// Spike times are kept this long (ms) for the raster and population rate
+const SPIKE_RECORD_WINDOW = 1000
+// Synaptic strengths are sampled this often (ms of model time), keeping the most recent samples
+const WEIGHT_SAMPLE_INTERVAL = 10
+const WEIGHT_SAMPLES = 300
 
 export default function BNNSimulation() {
   // Simulation state
@@ -68,16 +39,26 @@ export default function BNNSimulation() {
   const [selectedNeuronType, setSelectedNeuronType] = useState<"all" | "pyramidal" | "interneuron" | "motor">("all")
   const [showElectricalActivity, setShowElectricalActivity] = useState(true)
   const [showSynapses, setShowSynapses] = useState(true)
-
-  // Network data
-  const [neurons, setNeurons] = useState<BiologicalNeuron[]>([])
-  const [actionPotentials, setActionPotentials] = useState<ActionPotential[]>([])
-  const [synapses, setSynapses] = useState<Synapse[]>([])
-  const [currentTime, setCurrentTime] = useState(0)
+  const [synapticGain, setSynapticGain] = useState(1)
+  const [neuronModel, setNeuronModel] = useState<NeuronModelName>("leaky")
+  const [cellTypes, setCellTypes] = useState<CellTypes>(defaultCellTypes)
+  const [plasticity, setPlasticity] = useState<StdpConfig>(defaultStdp)
+  // Read when the network is rebuilt; preset changes alone retune the running network instead
+  const cellTypesRef = useRef(cellTypes)
+
+  // Network data; the ref lets the simulation loop step from the latest state without restarting its timer
+  const [network, setNetwork] = useState<NetworkState>({ neurons: [], synapses: [], actionPotentials: [], time: 0 })
+  const networkRef = useRef(network)
+  const { neurons, synapses, actionPotentials, time: currentTime } = network
 
   // Signal analysis state
   const [signalHistory, setSignalHistory] = useState<{ [key: string]: number[] }>({})
+  // The gates and ionic currents behind each potential in signalHistory, frame for frame
+  const [gateHistory, setGateHistory] = useState<{ [key: string]: GatingSample[] }>({})
   const [selectedNeuron, setSelectedNeuron] = useState<string | null>(null)
+  const [spikeRecord, setSpikeRecord] = useState<SpikeEvent[]>([])
+  const [weightHistory, setWeightHistory] = useState<WeightSample[]>([])
+  const [selectedSynapse, setSelectedSynapse] = useState<string | null>(null)
 
   // Initialize biological neural network
   const initializeNetwork = useCallback(() => {
@@ -159,6 +140,10 @@ export default function BNNSimulation() {
         threshold: -55,
         isActive: false,
         lastSpikeTime: 0,
+        synapticInput: 0,
+        gating: steadyStateGates(-70),
+        recovery: 0,
+        postTrace: 0,
         dendrites,
         axon: {
           id: `${i}-axon`,
@@ -185,126 +170,103 @@ export default function BNNSimulation() {
             neurotransmitter: neuron.type === "interneuron" ? "gaba" : "glutamate",
             isActive: false,
             lastActivation: 0,
+            rise: 0,
+            decay: 0,
+            preTrace: 0,
           })
         }
       })
     })
 
-    setNeurons(newNeurons)
-    setSynapses(newSynapses)
-    setActionPotentials([])
-    setCurrentTime(0)
+    const initial = restMembranes(
+      { neurons: newNeurons, synapses: newSynapses, actionPotentials: [], time: 0 },
+      neuronModel,
+      cellTypesRef.current,
+    )
+    networkRef.current = initial
+    setNetwork(initial)
     setSignalHistory({})
+    setGateHistory({})
+    setSpikeRecord([])
+    setWeightHistory([{ time: 0, weights: newSynapses.map((synapse) => synapse.strength) }])
+    setSelectedSynapse(newSynapses.find((synapse) => synapse.neurotransmitter === "glutamate")?.id ?? null)
     setSelectedNeuron(null)
-  }, [])
+  }, [neuronModel])
 
   // Simulation loop
   useEffect(() => {
-    let interval: NodeJS.Timeout
-
-    if (isRunning) {
-      interval = setInterval(() => {
-        setCurrentTime((prev) => prev + simulationSpeed)
-
-        setNeurons((prev) =>
-          prev.map((neuron) => {
-            let newPotential = neuron.currentPotential
-
-            // Decay towards resting potential
-            newPotential += (neuron.restingPotential - newPotential) * 0.1
-
-            // Random background activity
-            newPotential += (Math.random() - 0.5) * 2
-
-            // External stimulation
-            if (Math.random() < stimulationIntensity / 1000) {
-              newPotential += 20
-            }
-
-            // Check for action potential
-            let isActive = false
-            let lastSpikeTime = neuron.lastSpikeTime
-
-            if (newPotential > neuron.threshold && currentTime - neuron.lastSpikeTime > 50) {
-              isActive = true
-              lastSpikeTime = currentTime
-              newPotential = 40 // Peak of action potential
-
-              // Create action potential
-              setActionPotentials((prevAPs) => [
-                ...prevAPs,
-                {
-                  neuronId: neuron.id,
-                  startTime: currentTime,
-                  position: 0,
-                  amplitude: 40,
-                },
-              ])
-            }
-
-            // Update signal history for tracking
-            setSignalHistory((prev) => {
-              const history = prev[neuron.id] || []
-              const newHistory = [...history, newPotential]
-              // Keep last 100 data points
-              if (newHistory.length > 100) {
-                newHistory.shift()
-              }
-              return { ...prev, [neuron.id]: newHistory }
-            })
-
-            return {
-              ...neuron,
-              currentPotential: newPotential,
-              isActive,
-              lastSpikeTime,
-            }
+    if (!isRunning) return
+
+    const interval = setInterval(() => {
+      const next = stepNetwork(networkRef.current, {
+        dt: simulationSpeed,
+        model: neuronModel,
+        cellTypes,
+        stimulation: stimulationIntensity / 1000,
+        synapticGain,
+        plasticity,
+      })
+      const sampleDue =
+        Math.floor(next.time / WEIGHT_SAMPLE_INTERVAL) > Math.floor(networkRef.current.time / WEIGHT_SAMPLE_INTERVAL)
+      networkRef.current = next
+      setNetwork(next)
+
+      // Keep the last 100 potentials of each neuron for the signal trace. A spike that rose and reset within
+      // the frame is drawn at its peak.
+      setSignalHistory((prev) =>
+        Object.fromEntries(
+          next.neurons.map((neuron) => {
+            const potential = neuron.isActive ? Math.max(neuron.currentPotential, SPIKE_PEAK) : neuron.currentPotential
+            return [neuron.id, [...(prev[neuron.id] ?? []), potential].slice(-100)]
           }),
-        )
-
-        // Update action potentials
-        setActionPotentials((prev) =>
-          prev
-            .map((ap) => ({
-              ...ap,
-              position: (currentTime - ap.startTime) / 100,
-            }))
-            .filter((ap) => ap.position < 1),
-        )
-
-        // Update synapses
-        setSynapses((prev) =>
-          prev.map((synapse) => {
-            const relevantAP = actionPotentials.find(
-              (ap) =>
-                ap.neuronId === synapse.preNeuronId && ap.position > 0.8 && currentTime - synapse.lastActivation > 30,
-            )
-
-            if (relevantAP) {
-              return {
-                ...synapse,
-                isActive: true,
-                lastActivation: currentTime,
-              }
-            }
-
-            return {
-              ...synapse,
-              isActive: currentTime - synapse.lastActivation < 20,
-            }
+        ),
+      )
+      setGateHistory((prev) =>
+        Object.fromEntries(
+          next.neurons.map((neuron) => {
+            const sample = { gates: neuron.gating, currents: ionicCurrents(neuron.currentPotential, neuron.gating) }
+            return [neuron.id, [...(prev[neuron.id] ?? []), sample].slice(-100)]
           }),
-        )
-      }, 50)
-    }
+        ),
+      )
+
+      const fired = next.neurons.filter((neuron) => neuron.isActive)
+      setSpikeRecord((prev) => [
+        ...prev.filter((spike) => spike.time > next.time - SPIKE_RECORD_WINDOW),
+        ...fired.map((neuron) => ({ neuronId: neuron.id, time: next.time })),
+      ])
+
+      if (sampleDue) {
+        const sample = {
+          time: Math.floor(next.time / WEIGHT_SAMPLE_INTERVAL) * WEIGHT_SAMPLE_INTERVAL,
+          weights: next.synapses.map((synapse) => synapse.strength),
+        }
+        setWeightHistory((prev) => [...prev, sample].slice(-WEIGHT_SAMPLES))
+      }
+    }, 50)
 
     return () => clearInterval(interval)
-  }, [isRunning, simulationSpeed, stimulationIntensity, currentTime, actionPotentials])
+  }, [isRunning, simulationSpeed, stimulationIntensity, synapticGain, neuronModel, cellTypes, plasticity])
 
-  // Initialize network on mount
+  // Initialize network on mount, and again whenever the neuron model changes
   useEffect(() => {
     initializeNetwork()
   }, [initializeNetwork])
 
+  // Keeps learned weights and recorded activity, unlike a rebuild
+  const changeCellType = (type: NeuronType, preset: string) => {
+    const prev = cellTypesRef.current
+    const next =
+      neuronModel === "izhikevich"
+        ? { ...prev, izhikevich: { ...prev.izhikevich, [type]: preset as IzhikevichPresetName } }
+        : { ...prev, adex: { ...prev.adex, [type]: preset as AdExPresetName } }
+    cellTypesRef.current = next
+    setCellTypes(next)
+    const retuned = applyCellTypes(networkRef.current, neuronModel, next)
+    networkRef.current = retuned
+    setNetwork(retuned)
+  }
+
   const toggleSimulation = () => {
     setIsRunning(!isRunning)
   }
@@ -314,6 +276,9 @@ export default function BNNSimulation() {
     initializeNetwork()
   }
 
+  // The gates only move under Hodgkin-Huxley; the other models leave them at rest
+  const showGating = neuronModel === "hodgkinHuxley"
+
   const neuronTypeOptions = [
     { value: "all", label: "All Types" },
     { value: "pyramidal", label: "Pyramidal" },
@@ -370,7 +335,52 @@ export default function BNNSimulation() {
                 </div>
 
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Simulation Speed: {simulationSpeed}x</label>
+                  <label className="text-sm font-medium">Neuron Model</label>
+                  <Select value={neuronModel} onValueChange={(value) => setNeuronModel(value as NeuronModelName)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(neuronModels).map(([name, model]) => (
+                        <SelectItem key={name} value={name}>
+                          {model.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{neuronModels[neuronModel].description}</p>
+                </div>
+
+                {(neuronModel === "izhikevich" || neuronModel === "adex") && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Cell Types</label>
+                    {(["pyramidal", "interneuron", "motor"] as const).map((type) => (
+                      <div key={type} className="flex items-center gap-2">
+                        <span className="text-xs w-20 capitalize">{type}</span>
+                        <Select
+                          value={cellTypes[neuronModel][type]}
+                          onValueChange={(value) => changeCellType(type, value)}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(neuronModel === "izhikevich" ? izhikevichPresets : adexPresets).map(
+                              ([name, preset]) => (
+                                <SelectItem key={name} value={name}>
+                                  {preset.label}
+                                </SelectItem>
+                              ),
+                            )}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Simulation Speed: {simulationSpeed} ms/frame</label>
                   <Slider
                     value={[simulationSpeed]}
                     onValueChange={(value) => setSimulationSpeed(value[0])}
@@ -391,6 +401,20 @@ export default function BNNSimulation() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Synaptic Gain: {synapticGain.toFixed(1)}x</label>
+                  <Slider
+                    value={[synapticGain]}
+                    onValueChange={(value) => setSynapticGain(value[0])}
+                    min={0}
+                    max={2}
+                    step={0.1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Scales every EPSP and IPSP; at 0 the neurons only see noise and stimulation
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Neuron Type Filter</label>
                   <Select value={selectedNeuronType} onValueChange={(value) => setSelectedNeuronType(value as "all" | "pyramidal" | "interneuron" | "motor")}>
@@ -447,7 +471,7 @@ export default function BNNSimulation() {
                 </div>
                 <div className="flex justify-between text-sm">
                   <span>Simulation Time</span>
-                  <span className="font-mono">{Math.floor(currentTime / 100)}s</span>
+                  <span className="font-mono">{(currentTime / 1000).toFixed(2)}s</span>
                 </div>
                 {selectedNeuron && (
                   <div className="flex justify-between text-sm pt-2 border-t">
@@ -462,9 +486,11 @@ export default function BNNSimulation() {
           {/* Main Visualization Area */}
           <div className="lg:col-span-3">
             <Tabs defaultValue="neuron" className="space-y-4">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="neuron">Single Neuron</TabsTrigger>
                 <TabsTrigger value="network">Neural Network</TabsTrigger>
+                <TabsTrigger value="activity">Spike Activity</TabsTrigger>
+                <TabsTrigger value="plasticity">Plasticity</TabsTrigger>
               </TabsList>
 
               <TabsContent value="neuron">
@@ -721,6 +747,16 @@ export default function BNNSimulation() {
                     </div>
                   </CardContent>
                 </Card>
+
+                {neuronModel === "hodgkinHuxley" && (
+                  <div className="mt-4">
+                    <HodgkinHuxleyPanel />
+                  </div>
+                )}
+
+                <div className="mt-4">
+                  <FiringPatternPanel />
+                </div>
               </TabsContent>
 
               <TabsContent value="network">
@@ -744,6 +780,11 @@ export default function BNNSimulation() {
 
                           if (!preNeuron || !postNeuron) return null
 
+                          // Green for excitatory, red for inhibitory; the line thickens with the open conductance
+                          const open = synapticConductance(synapse, synapticGain) / PEAK_CONDUCTANCE
+                          const inhibitory = synapse.neurotransmitter === "gaba"
+                          const conducting = open > 0.05
+
                           return (
                             <line
                               key={synapse.id}
@@ -751,10 +792,10 @@ export default function BNNSimulation() {
                               y1={preNeuron.y}
                               x2={postNeuron.x}
                               y2={postNeuron.y}
-                              stroke={synapse.isActive ? "#0ea5e9" : "#64748b"}
-                              strokeWidth={synapse.isActive ? 3 : 1}
+                              stroke={conducting ? (inhibitory ? "#ef4444" : "#22c55e") : "#64748b"}
+                              strokeWidth={1 + Math.min(open, 2) * 2}
                               strokeDasharray="6,6"
-                              opacity={synapse.isActive ? 0.9 : 0.3}
+                              opacity={conducting || synapse.isActive ? 0.9 : 0.3}
                               className={synapse.isActive ? "animate-pulse" : ""}
                             />
                           )
@@ -923,12 +964,25 @@ export default function BNNSimulation() {
                             y1={0}
                             x2={250}
                             y2={0}
-                            stroke="#0ea5e9"
+                            stroke="#22c55e"
                             strokeWidth={3}
                             strokeDasharray="6,6"
                           />
-                          <text x={260} y={5} className="text-sm font-medium fill-blue-600">
-                            Active Synapse
+                          <text x={260} y={5} className="text-sm font-medium fill-green-600">
+                            EPSP ({synapseKinetics.glutamate?.label})
+                          </text>
+
+                          <line
+                            x1={400}
+                            y1={0}
+                            x2={450}
+                            y2={0}
+                            stroke="#ef4444"
+                            strokeWidth={3}
+                            strokeDasharray="6,6"
+                          />
+                          <text x={460} y={5} className="text-sm font-medium fill-red-600">
+                            IPSP ({synapseKinetics.gaba?.label})
                           </text>
                         </g>
 
@@ -979,8 +1033,11 @@ export default function BNNSimulation() {
                               </CardTitle>
                             </CardHeader>
                             <CardContent>
-                              <div className="h-48 bg-muted/20 rounded-lg p-4">
-                                <svg className="w-full h-full" viewBox="0 0 400 150">
+                              <div className={`${showGating ? "h-96" : "h-48"} bg-muted/20 rounded-lg p-4`}>
+                                <svg
+                                  className="w-full h-full"
+                                  viewBox={`0 0 400 ${showGating ? 150 + GATING_STRIPS_HEIGHT : 150}`}
+                                >
                                   {/* Grid */}
                                   {Array.from({ length: 8 }, (_, i) => (
                                     <g key={i}>
@@ -1076,6 +1133,9 @@ export default function BNNSimulation() {
                                       />
                                     )
                                   })()}
+
+                                  {/* Gates and ionic currents on the same samples as the voltage above */}
+                                  {showGating && <GatingStrips samples={gateHistory[selectedNeuron] ?? []} top={150} />}
                                 </svg>
                               </div>
                             </CardContent>
@@ -1163,6 +1223,9 @@ export default function BNNSimulation() {
                                 }
 
                                 const neuronInfo = neuronFunctions[neuron.type]
+                                const inputs = synapses.filter((s) => s.postNeuronId === neuron.id)
+                                const excitatoryInputs = inputs.filter((s) => s.neurotransmitter === "glutamate").length
+                                const inhibitoryInputs = inputs.filter((s) => s.neurotransmitter === "gaba").length
 
                                 return (
                                   <div className="space-y-4">
@@ -1196,6 +1259,16 @@ export default function BNNSimulation() {
                                           {neuron.isActive ? "FIRING" : "Resting"}
                                         </div>
                                       </div>
+                                      {(neuronModel === "izhikevich" || neuronModel === "adex") && (
+                                        <div className="col-span-2">
+                                          <span className="text-muted-foreground">Firing Pattern:</span>
+                                          <div className="font-semibold">
+                                            {neuronModel === "izhikevich"
+                                              ? izhikevichPresets[cellTypes.izhikevich[neuron.type]].label
+                                              : adexPresets[cellTypes.adex[neuron.type]].label}
+                                          </div>
+                                        </div>
+                                      )}
                                       <div>
                                         <span className="text-muted-foreground">Membrane Potential:</span>
                                         <div className="font-mono font-semibold">
@@ -1204,12 +1277,31 @@ export default function BNNSimulation() {
                                       </div>
                                       <div>
                                         <span className="text-muted-foreground">Threshold:</span>
-                                        <div className="font-mono font-semibold text-red-600">{neuron.threshold}mV</div>
+                                        <div className="font-mono font-semibold text-red-600">
+                                          {neuron.threshold.toFixed(1)}mV
+                                        </div>
                                       </div>
                                       <div>
                                         <span className="text-muted-foreground">Avg Potential:</span>
                                         <div className="font-mono font-semibold">{avgPotential.toFixed(1)}mV</div>
                                       </div>
+                                      <div>
+                                        <span className="text-muted-foreground">Synaptic Input:</span>
+                                        <div
+                                          className={`font-mono font-semibold ${
+                                            neuron.synapticInput < 0 ? "text-red-600" : "text-green-600"
+                                          }`}
+                                        >
+                                          {neuron.synapticInput >= 0 ? "+" : ""}
+                                          {neuron.synapticInput.toFixed(2)}mV/ms
+                                        </div>
+                                      </div>
+                                      <div>
+                                        <span className="text-muted-foreground">Input Mix:</span>
+                                        <div className="font-semibold">
+                                          {excitatoryInputs} exc / {inhibitoryInputs} inh
+                                        </div>
+                                      </div>
                                       <div>
                                         <span className="text-muted-foreground">Spikes Detected:</span>
                                         <div className="font-semibold text-red-600">{spikesInHistory}</div>
@@ -1218,7 +1310,7 @@ export default function BNNSimulation() {
                                         <span className="text-muted-foreground">Last Spike:</span>
                                         <div className="font-mono font-semibold">
                                           {neuron.lastSpikeTime > 0
-                                            ? `${Math.floor((currentTime - neuron.lastSpikeTime) / 100)}s ago`
+                                            ? `${Math.round(currentTime - neuron.lastSpikeTime)} ms ago`
                                             : "None"}
                                         </div>
                                       </div>
@@ -1318,6 +1410,28 @@ export default function BNNSimulation() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="activity">
+                <SpikeRasterPanel
+                  neurons={neurons}
+                  spikes={spikeRecord}
+                  time={currentTime}
+                  window={SPIKE_RECORD_WINDOW}
+                />
+              </TabsContent>
+
+              <TabsContent value="plasticity">
+                <StdpPanel
+                  config={plasticity}
+                  onConfigChange={setPlasticity}
+                  neurons={neurons}
+                  synapses={synapses}
+                  weightHistory={weightHistory}
+                  sampleInterval={WEIGHT_SAMPLE_INTERVAL}
+                  selectedSynapse={selectedSynapse}
+                  onSelectSynapse={setSelectedSynapse}
+                />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
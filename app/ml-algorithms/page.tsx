@@ -3,13 +3,15 @@
 import type React from "react"
 
 import { useState, useEffect, useCallback, useRef } from "react"
-import { ArrowLeft, Play, Pause, RotateCcw, TrendingUp, GitBranch, Layers, Settings, BarChart3 } from "lucide-react"
+import { ArrowLeft, Play, Pause, RotateCcw, TrendingUp, GitBranch, Layers, Settings, BarChart3, Database } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Slider } from "@/components/ui/slider"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
+import { CsvImport } from "@/components/csv-import"
+import type { CsvDataset } from "@/lib/csv"
 import Link from "next/link"
 
 // Types for ML algorithms
@@ -196,6 +198,8 @@ export default function MLAlgorithms() {
 
   // Algorithm-specific states
   const [dataPoints, setDataPoints] = useState<DataPoint[]>([])
+  // Points from an uploaded CSV, used instead of generated data for the algorithm they were loaded for
+  const [uploaded, setUploaded] = useState<{ algorithm: "linear" | "forest"; name: string; points: DataPoint[] } | null>(null)
   const [linearRegression, setLinearRegression] = useState<LinearRegressionState>({
     slope: 0,
     intercept: 0,
@@ -233,6 +237,11 @@ export default function MLAlgorithms() {
   const generateData = useCallback(() => {
     if (!isClient) return // Don't generate data on server side
     
+    if (uploaded?.algorithm === selectedAlgorithm) {
+      setDataPoints(uploaded.points)
+      return
+    }
+
     resetSeed() // Reset seed for consistent data generation
     const points: DataPoint[] = []
 
@@ -323,7 +332,26 @@ export default function MLAlgorithms() {
     }
 
     setDataPoints(points)
-  }, [selectedAlgorithm, isClient])
+  }, [selectedAlgorithm, isClient, uploaded])
+
+  // Linear regression fits the target against one feature; the decision tree splits two features into classes
+  const loadCsv = (name: string, data: CsvDataset) => {
+    setIsRunning(false)
+    setDecisionTree(null)
+    if (selectedAlgorithm === "linear") {
+      setUploaded({
+        algorithm: "linear",
+        name,
+        points: data.inputs.map((input, i) => ({ x: input[0], y: data.targets[i][0] })),
+      })
+    } else if (selectedAlgorithm === "forest") {
+      setUploaded({
+        algorithm: "forest",
+        name,
+        points: data.inputs.map((input, i) => ({ x: input[0], y: input[1], label: data.targets[i].indexOf(1) })),
+      })
+    }
+  }
 
   // Improved decision tree building
   const buildDecisionTree = useCallback((data: DataPoint[], depth = 0, maxDepth = 3): DecisionNode => {
@@ -818,6 +846,47 @@ export default function MLAlgorithms() {
               </CardContent>
             </Card>
 
+            {/* CSV upload for the algorithms that train on points */}
+            {(selectedAlgorithm === "linear" || selectedAlgorithm === "forest") && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Database className="h-5 w-5" />
+                    Your Own Data
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedAlgorithm === "linear"
+                      ? "One feature column against a numeric target."
+                      : "Two feature columns and a target with up to 3 classes."}{" "}
+                    Min-max scaling fits the columns onto the plot&apos;s 0–10 axes.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <CsvImport
+                    key={selectedAlgorithm}
+                    onLoad={loadCsv}
+                    minFeatures={selectedAlgorithm === "linear" ? 1 : 2}
+                    maxFeatures={selectedAlgorithm === "linear" ? 1 : 2}
+                    targetTypes={selectedAlgorithm === "linear" ? ["numeric"] : ["classes"]}
+                    normalizationOptions={["minmax", "none"]}
+                    range={[0, 10]}
+                    maxClasses={3}
+                    disabled={isRunning}
+                  />
+                  {uploaded?.algorithm === selectedAlgorithm && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Using {uploaded.name} ({uploaded.points.length} points)
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => setUploaded(null)} disabled={isRunning}>
+                        Use generated data
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Metrics Card */}
             <Card>
               <CardHeader>
@@ -0,0 +1,96 @@
+"use client"
+
+import { useMemo } from "react"
+import type { Sample } from "@/lib/ann/types"
+
+interface DecisionBoundaryProps {
+  samples: Sample[]
+  predict: (inputs: number[][]) => number[][]
+  resolution?: number
+}
+
+const SIZE = 300
+const CLASS_COLORS = ["#f59e0b", "#3b82f6", "#10b981", "#ec4899"]
+
+// Class index and confidence for an output vector (single output = binary probability)
+const classify = (output: number[]) => {
+  if (output.length === 1) {
+    const p = Math.min(1, Math.max(0, output[0]))
+    return { label: p >= 0.5 ? 1 : 0, confidence: Math.abs(p - 0.5) * 2 }
+  }
+  const label = output.reduce((best, v, i) => (v > output[best] ? i : best), 0)
+  const sorted = [...output].sort((a, b) => b - a)
+  return { label, confidence: Math.min(1, Math.max(0, sorted[0] - sorted[1])) }
+}
+
+export function DecisionBoundary({ samples, predict, resolution = 40 }: DecisionBoundaryProps) {
+  // Input plane bounds with a margin around the data
+  const bounds = useMemo(() => {
+    const xs = samples.map((s) => s.input[0])
+    const ys = samples.map((s) => s.input[1])
+    const pad = 0.2
+    return {
+      minX: Math.min(...xs) - pad,
+      maxX: Math.max(...xs) + pad,
+      minY: Math.min(...ys) - pad,
+      maxY: Math.max(...ys) + pad,
+    }
+  }, [samples])
+
+  const cells = useMemo(() => {
+    const inputs: number[][] = []
+    for (let row = 0; row < resolution; row++) {
+      for (let col = 0; col < resolution; col++) {
+        inputs.push([
+          bounds.minX + ((col + 0.5) / resolution) * (bounds.maxX - bounds.minX),
+          bounds.maxY - ((row + 0.5) / resolution) * (bounds.maxY - bounds.minY),
+        ])
+      }
+    }
+    return predict(inputs).map((output, index) => ({
+      row: Math.floor(index / resolution),
+      col: index % resolution,
+      ...classify(output),
+    }))
+  }, [predict, bounds, resolution])
+
+  const toScreen = (input: number[]) => ({
+    x: ((input[0] - bounds.minX) / (bounds.maxX - bounds.minX)) * SIZE,
+    y: ((bounds.maxY - input[1]) / (bounds.maxY - bounds.minY)) * SIZE,
+  })
+  const cellSize = SIZE / resolution
+
+  return (
+    <svg className="w-full h-full" viewBox={`0 0 ${SIZE} ${SIZE}`} preserveAspectRatio="xMidYMid meet">
+      {/* Prediction heatmap */}
+      {cells.map((cell) => (
+        <rect
+          key={`${cell.row}-${cell.col}`}
+          x={cell.col * cellSize}
+          y={cell.row * cellSize}
+          width={cellSize + 0.5}
+          height={cellSize + 0.5}
+          fill={CLASS_COLORS[cell.label % CLASS_COLORS.length]}
+          opacity={0.1 + cell.confidence * 0.5}
+        />
+      ))}
+
+      {/* Training data */}
+      {samples.map((sample, index) => {
+        const { x, y } = toScreen(sample.input)
+        const { label } = classify(sample.target)
+        return (
+          <circle
+            key={index}
+            cx={x}
+            cy={y}
+            r={3}
+            fill={CLASS_COLORS[label % CLASS_COLORS.length]}
+            stroke="#f9fafb"
+            strokeWidth={0.75}
+          />
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,184 @@
+"use client"
+
+import type { ClassificationReport, CurvePoint } from "@/lib/ann/evaluation"
+
+interface EvaluationPanelProps {
+  report: ClassificationReport
+}
+
+const CURVE_SIZE = 200
+const CURVE_PADDING = 24
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// Square plot of a curve on [0, 1]², with a dashed reference line for a classifier that guesses
+function CurveChart({
+  title,
+  points,
+  reference,
+  xLabel,
+  yLabel,
+  color,
+}: {
+  title: string
+  points: CurvePoint[]
+  reference: [CurvePoint, CurvePoint]
+  xLabel: string
+  yLabel: string
+  color: string
+}) {
+  const span = CURVE_SIZE - 2 * CURVE_PADDING
+  const toX = (x: number) => CURVE_PADDING + x * span
+  const toY = (y: number) => CURVE_SIZE - CURVE_PADDING - y * span
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"} ${toX(p.x)} ${toY(p.y)}`).join(" ")
+
+  return (
+    <div>
+      <div className="text-sm text-gray-300 mb-1">{title}</div>
+      <svg className="w-full max-w-xs" viewBox={`0 0 ${CURVE_SIZE} ${CURVE_SIZE}`}>
+        <rect x={toX(0)} y={toY(1)} width={span} height={span} fill="none" stroke="#4b5563" strokeWidth={0.75} />
+        {[0.25, 0.5, 0.75].map((t) => (
+          <g key={t} stroke="#374151" strokeWidth={0.5}>
+            <line x1={toX(t)} y1={toY(0)} x2={toX(t)} y2={toY(1)} />
+            <line x1={toX(0)} y1={toY(t)} x2={toX(1)} y2={toY(t)} />
+          </g>
+        ))}
+        <line
+          x1={toX(reference[0].x)}
+          y1={toY(reference[0].y)}
+          x2={toX(reference[1].x)}
+          y2={toY(reference[1].y)}
+          stroke="#6b7280"
+          strokeDasharray="4 3"
+        />
+        <path d={path} stroke={color} strokeWidth={2} fill="none" />
+        <text x={CURVE_SIZE / 2} y={CURVE_SIZE - 6} textAnchor="middle" className="text-[9px] fill-gray-400">
+          {xLabel}
+        </text>
+        <text
+          x={10}
+          y={CURVE_SIZE / 2}
+          textAnchor="middle"
+          transform={`rotate(-90 10 ${CURVE_SIZE / 2})`}
+          className="text-[9px] fill-gray-400"
+        >
+          {yLabel}
+        </text>
+      </svg>
+    </div>
+  )
+}
+
+export function EvaluationPanel({ report }: EvaluationPanelProps) {
+  const { matrix, classes, curves } = report
+  const positiveRate = classes[1] ? classes[1].support / Math.max(1, classes[0].support + classes[1].support) : 0
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Confusion matrix, shaded by the share of each actual class */}
+        <div>
+          <div className="text-sm text-gray-300 mb-1">Confusion Matrix</div>
+          <table className="text-xs font-mono">
+            <thead>
+              <tr>
+                <th className="p-1 text-gray-500 font-normal text-left">actual ↓ / predicted →</th>
+                {matrix.map((_, k) => (
+                  <th key={k} className="p-1 text-gray-400 font-normal">
+                    {k}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((row, actual) => {
+                const total = row.reduce((sum, count) => sum + count, 0)
+                return (
+                  <tr key={actual}>
+                    <td className="p-1 text-gray-400 text-right">{actual}</td>
+                    {row.map((count, predicted) => {
+                      const share = total > 0 ? count / total : 0
+                      const color = actual === predicted ? "16, 185, 129" : "239, 68, 68"
+                      return (
+                        <td
+                          key={predicted}
+                          className="w-12 h-10 text-center text-white border border-gray-700"
+                          style={{ backgroundColor: `rgba(${color}, ${0.1 + share * 0.7})` }}
+                          title={`${count} of ${total} class ${actual} samples predicted as ${predicted}`}
+                        >
+                          {count}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Per-class scores */}
+        <div>
+          <div className="text-sm text-gray-300 mb-1">Per-Class Scores</div>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="p-1 font-normal text-left">Class</th>
+                <th className="p-1 font-normal text-right">Precision</th>
+                <th className="p-1 font-normal text-right">Recall</th>
+                <th className="p-1 font-normal text-right">F1</th>
+                <th className="p-1 font-normal text-right">Support</th>
+              </tr>
+            </thead>
+            <tbody className="text-white">
+              {classes.map((scores, k) => (
+                <tr key={k} className="border-t border-gray-700">
+                  <td className="p-1">{k}</td>
+                  <td className="p-1 text-right">{percent(scores.precision)}</td>
+                  <td className="p-1 text-right">{percent(scores.recall)}</td>
+                  <td className="p-1 text-right">{scores.f1.toFixed(3)}</td>
+                  <td className="p-1 text-right text-gray-400">{scores.support}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-gray-600 text-gray-300">
+                <td className="p-1">Overall</td>
+                <td className="p-1 text-right" colSpan={2}>
+                  accuracy {percent(report.accuracy)}
+                </td>
+                <td className="p-1 text-right">{report.macroF1.toFixed(3)}</td>
+                <td className="p-1 text-right text-gray-400">macro</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {curves && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <CurveChart
+            title={`ROC curve • AUC ${curves.rocAuc.toFixed(3)}`}
+            points={curves.roc}
+            reference={[
+              { x: 0, y: 0 },
+              { x: 1, y: 1 },
+            ]}
+            xLabel="False positive rate"
+            yLabel="True positive rate"
+            color="#3b82f6"
+          />
+          <CurveChart
+            title={`Precision-recall • AUC ${curves.prAuc.toFixed(3)}`}
+            points={curves.pr}
+            reference={[
+              { x: 0, y: positiveRate },
+              { x: 1, y: positiveRate },
+            ]}
+            xLabel="Recall"
+            yLabel="Precision"
+            color="#10b981"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
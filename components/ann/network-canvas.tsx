@@ -0,0 +1,447 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Maximize2, ZoomIn, ZoomOut } from "lucide-react"
+import type { DenseNetwork } from "@/lib/ann/engine"
+import type { NetworkNode } from "@/lib/ann/types"
+
+interface NetworkCanvasProps {
+  // Connections are read straight from the weight matrices; only the ones drawn in a frame become segments
+  network: DenseNetwork
+  nodes: NetworkNode[]
+  view: "weights" | "gradients"
+  selectedNeuron?: string
+  selectedConnection: number | null
+  // Neurons and connections the current step-through operation works on
+  tracedNodes: Set<string>
+  tracedConnections: Set<number>
+  // While stepping, neurons outside this set show "?" until the pass reaches them
+  revealedNodes?: Set<string>
+  // Whether the weight at `slot` of network.layers[layer] is drawn as carrying a signal
+  isActive: (layer: number, slot: number) => boolean
+  onNeuronClick: (node: NetworkNode) => void
+  onConnectionClick: (index: number) => void
+}
+
+// Pixels per world unit and the screen position of the world origin
+interface Viewport {
+  scale: number
+  x: number
+  y: number
+}
+
+// World coordinates match the SVG diagram: layers spread across 800 units, neurons down a 300-unit band
+const WORLD_WIDTH = 800
+const WORLD_HEIGHT = 350
+const BAND_TOP = 50
+const BAND_HEIGHT = 300
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 64
+// Connections drawn per frame across all layer pairs; past that, each pair keeps its strongest visible ones
+const EDGE_BUDGET = 4000
+// A layer wider than this collapses into an activation strip while its neurons sit closer than
+// SUMMARY_PITCH pixels apart on screen; zooming in expands it back into circles
+const SUMMARY_THRESHOLD = 32
+const SUMMARY_PITCH = 6
+const STRIP_WIDTH = 14
+// Neurons print their value once they are drawn at least this large (radius in pixels)
+const LABEL_RADIUS = 12
+
+const layerX = (layer: number, layerCount: number) => (WORLD_WIDTH / (layerCount + 1)) * (layer + 1)
+const nodePitch = (size: number) => BAND_HEIGHT / (Math.max(1, size) + 1)
+const nodeY = (position: number, size: number) => BAND_TOP + nodePitch(size) * (position + 1)
+const nodeRadius = (size: number) => Math.min(18, nodePitch(size) * 0.4)
+
+const nodeColor = (node: NetworkNode, layerCount: number) => {
+  if (node.dropped) return "#4b5563"
+  if (node.layer === 0) return "#10b981"
+  return node.layer === layerCount - 1 ? "#84cc16" : "#06b6d4"
+}
+
+const layerName = (layer: number, layerCount: number) =>
+  layer === 0 ? "Input Layer" : layer === layerCount - 1 ? "Output Layer" : `Hidden Layer ${layer}`
+
+// Whole network centred in the canvas, as the SVG viewBox would show it
+const fitViewport = (width: number, height: number): Viewport => {
+  const scale = Math.min(width / WORLD_WIDTH, height / WORLD_HEIGHT)
+  return { scale, x: (width - WORLD_WIDTH * scale) / 2, y: (height - WORLD_HEIGHT * scale) / 2 }
+}
+
+// Zoom around a screen point, keeping the world position under it fixed (limits are relative to the fitted view)
+const zoomViewport = (base: Viewport, fitScale: number, factor: number, px: number, py: number): Viewport => {
+  const scale = Math.min(fitScale * MAX_ZOOM, Math.max(fitScale * MIN_ZOOM, base.scale * factor))
+  const k = scale / base.scale
+  return { scale, x: px - (px - base.x) * k, y: py - (py - base.y) * k }
+}
+
+// World-to-screen mapping for one viewport, with the layers that are too dense to draw neuron by neuron
+const createProjection = ({ scale, x, y }: Viewport, architecture: number[]) => {
+  const summarized = architecture.map(
+    (width) => width > SUMMARY_THRESHOLD && nodePitch(width) * scale < SUMMARY_PITCH,
+  )
+  return {
+    summarized,
+    toScreenX: (worldX: number) => worldX * scale + x,
+    toScreenY: (worldY: number) => worldY * scale + y,
+    // Connections attach to the edge of a neuron, or to the side of a strip
+    attachOffset: (layer: number) =>
+      summarized[layer] ? STRIP_WIDTH / 2 : nodeRadius(architecture[layer]) * scale,
+  }
+}
+
+// Distance from a point to a line segment, for clicking on connections
+const segmentDistance = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / (dx * dx + dy * dy || 1)))
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy))
+}
+
+// Canvas renderer for networks too large for the SVG diagram: zoom with the wheel, pan by dragging, and only
+// the strongest connections in view are drawn
+export function NetworkCanvas({
+  network,
+  nodes,
+  view,
+  selectedNeuron,
+  selectedConnection,
+  tracedNodes,
+  tracedConnections,
+  revealedNodes,
+  isActive,
+  onNeuronClick,
+  onConnectionClick,
+}: NetworkCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  // null follows the container size with the whole network in view
+  const [viewport, setViewport] = useState<Viewport | null>(null)
+  const [drawnEdges, setDrawnEdges] = useState(0)
+  const drag = useRef<{ startX: number; startY: number; from: Viewport; moved: boolean } | null>(null)
+  // Screen segments of the connections in the last frame, for hit testing
+  const hitSegments = useRef<{ index: number; x1: number; y1: number; x2: number; y2: number }[]>([])
+
+  const fit = useMemo(() => fitViewport(size.width, size.height), [size])
+  const current = viewport ?? fit
+
+  const architecture = useMemo(() => network.ids.map((ids) => ids.length), [network.ids])
+  const connectionCount = useMemo(
+    () => network.layers.reduce((count, layer) => count + layer.connections.filter((index) => index >= 0).length, 0),
+    [network.layers],
+  )
+  // Neurons by layer and position
+  const layers = useMemo(() => {
+    const grouped = architecture.map(() => [] as NetworkNode[])
+    nodes.forEach((node) => {
+      if (grouped[node.layer]) grouped[node.layer][node.position] = node
+    })
+    return grouped
+  }, [nodes, architecture])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height }),
+    )
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const zoomAt = (factor: number, px: number, py: number) =>
+    setViewport((previous) => zoomViewport(previous ?? fit, fit.scale, factor, px, py))
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      const factor = Math.exp(-event.deltaY * 0.0015)
+      setViewport((previous) =>
+        zoomViewport(previous ?? fit, fit.scale, factor, event.clientX - rect.left, event.clientY - rect.top),
+      )
+    }
+    canvas.addEventListener("wheel", onWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", onWheel)
+  }, [fit])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx || size.width === 0) return
+    const layerCount = architecture.length
+    const { summarized, toScreenX, toScreenY, attachOffset } = createProjection(current, architecture)
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+    ctx.clearRect(0, 0, size.width, size.height)
+
+    const magnitudes = network.layers.map((layer) =>
+      view === "gradients" ? layer.weightGradients : layer.weights.map(Math.abs),
+    )
+    const maxMagnitude = magnitudes.reduce((max, values) => values.reduce((m, v) => Math.max(m, v), max), 1e-12)
+    const maxNodeGradient = nodes.reduce((max, node) => Math.max(max, node.gradient ?? 0), 1e-12)
+    const intensity = (node: NetworkNode) =>
+      view === "gradients" && node.gradient !== undefined
+        ? node.gradient / maxNodeGradient
+        : Math.min(1, Math.abs(node.activation))
+
+    // Connections: cull pairs and segments outside the view, then keep the strongest of what is left
+    const segments: typeof hitSegments.current = []
+    const pairBudget = Math.floor(EDGE_BUDGET / Math.max(1, network.layers.length))
+    network.layers.forEach(({ inputs, weights, fixed, connections }, layer) => {
+      const x1 = toScreenX(layerX(layer, layerCount)) + attachOffset(layer)
+      const x2 = toScreenX(layerX(layer + 1, layerCount)) - attachOffset(layer + 1)
+      if (x2 < 0 || x1 > size.width) return
+      const fromSize = architecture[layer]
+      const toSize = architecture[layer + 1]
+      const magnitude = magnitudes[layer]
+      // Weight slots j * inputs + i whose connection crosses the view
+      const visible: number[] = []
+      connections.forEach((index, slot) => {
+        if (index < 0) return
+        const y1 = toScreenY(nodeY(slot % inputs, fromSize))
+        const y2 = toScreenY(nodeY(Math.floor(slot / inputs), toSize))
+        if (!(Math.max(y1, y2) < 0 || Math.min(y1, y2) > size.height)) visible.push(slot)
+      })
+      let threshold = 0
+      if (visible.length > pairBudget) {
+        const sorted = Float64Array.from(visible, (slot) => magnitude[slot]).sort()
+        threshold = sorted[sorted.length - pairBudget]
+      }
+
+      let drawn = 0
+      for (const slot of visible) {
+        const index = connections[slot]
+        const value = magnitude[slot]
+        // The selected and traced connections are always drawn, however weak
+        const pinned = index === selectedConnection || tracedConnections.has(index)
+        if (!pinned && (drawn >= pairBudget || value < threshold)) continue
+        drawn++
+        const share = value / maxMagnitude
+        const weight = weights[slot]
+        const source = layers[layer][slot % inputs]
+        const target = layers[layer + 1][Math.floor(slot / inputs)]
+        // Same rule as the SVG diagram: dropped neurons carry nothing, and stepping shows only the traced ones
+        const active =
+          tracedConnections.size > 0
+            ? tracedConnections.has(index)
+            : isActive(layer, slot) && !source?.dropped && !target?.dropped
+        const y1 = toScreenY(nodeY(slot % inputs, fromSize))
+        const y2 = toScreenY(nodeY(Math.floor(slot / inputs), toSize))
+
+        if (view === "gradients") {
+          ctx.strokeStyle = "#f97316"
+          ctx.lineWidth = share * 4 + 0.5
+          ctx.globalAlpha = 0.15 + 0.8 * share
+        } else {
+          ctx.strokeStyle = active ? (weight > 0 ? "#10b981" : "#ef4444") : "#64748b"
+          ctx.lineWidth = active ? Math.min(4, Math.abs(weight) * 2 + 0.5) : 1
+          ctx.globalAlpha = active ? 0.9 : 0.1 + 0.25 * share
+        }
+        ctx.setLineDash(fixed[slot] ? [4, 3] : [])
+        ctx.beginPath()
+        ctx.moveTo(x1, y1)
+        ctx.lineTo(x2, y2)
+        ctx.stroke()
+        segments.push({ index, x1, y1, x2, y2 })
+      }
+    })
+    ctx.setLineDash([])
+    hitSegments.current = segments
+    setDrawnEdges(segments.length)
+
+    const selected = segments.find((segment) => segment.index === selectedConnection)
+    if (selected) {
+      ctx.strokeStyle = "#fbbf24"
+      ctx.lineWidth = 3
+      ctx.globalAlpha = 0.8
+      ctx.beginPath()
+      ctx.moveTo(selected.x1, selected.y1)
+      ctx.lineTo(selected.x2, selected.y2)
+      ctx.stroke()
+    }
+
+    // Neurons, or one activation strip per summarized layer
+    layers.forEach((layerNodes, layer) => {
+      const width = architecture[layer]
+      const cx = toScreenX(layerX(layer, layerCount))
+      const pitch = nodePitch(width) * current.scale
+      if (cx < -STRIP_WIDTH || cx > size.width + STRIP_WIDTH) return
+
+      if (summarized[layer]) {
+        layerNodes.forEach((node) => {
+          const top = toScreenY(nodeY(node.position, width)) - pitch / 2
+          if (top + pitch < 0 || top > size.height) return
+          ctx.globalAlpha = 0.15 + 0.85 * intensity(node)
+          ctx.fillStyle = nodeColor(node, layerCount)
+          ctx.fillRect(cx - STRIP_WIDTH / 2, top, STRIP_WIDTH, Math.max(1, pitch))
+          if (node.id === selectedNeuron || tracedNodes.has(node.id)) {
+            ctx.globalAlpha = 1
+            ctx.strokeStyle = tracedNodes.has(node.id) ? "#f97316" : "#fbbf24"
+            ctx.lineWidth = 2
+            ctx.strokeRect(cx - STRIP_WIDTH / 2 - 2, top - 1, STRIP_WIDTH + 4, Math.max(3, pitch + 2))
+          }
+        })
+        ctx.globalAlpha = 1
+        ctx.strokeStyle = "#4b5563"
+        ctx.lineWidth = 1
+        ctx.strokeRect(
+          cx - STRIP_WIDTH / 2,
+          toScreenY(nodeY(0, width)) - pitch / 2,
+          STRIP_WIDTH,
+          pitch * width,
+        )
+        return
+      }
+
+      const radius = nodeRadius(width) * current.scale
+      layerNodes.forEach((node) => {
+        const cy = toScreenY(nodeY(node.position, width))
+        if (cy + radius < 0 || cy - radius > size.height) return
+        const color = nodeColor(node, layerCount)
+        const isSelected = node.id === selectedNeuron
+        if (isSelected || tracedNodes.has(node.id)) {
+          ctx.globalAlpha = 0.8
+          ctx.strokeStyle = tracedNodes.has(node.id) ? "#f97316" : "#fbbf24"
+          ctx.lineWidth = 3
+          ctx.beginPath()
+          ctx.arc(cx, cy, radius * 1.55, 0, 2 * Math.PI)
+          ctx.stroke()
+        }
+        ctx.beginPath()
+        ctx.arc(cx, cy, radius, 0, 2 * Math.PI)
+        ctx.globalAlpha = 0.2 + 0.6 * intensity(node)
+        ctx.fillStyle = color
+        ctx.fill()
+        ctx.globalAlpha = 1
+        ctx.strokeStyle = isSelected ? "#fbbf24" : color
+        ctx.lineWidth = isSelected ? 3 : Math.min(2, Math.max(0.5, radius / 6))
+        ctx.stroke()
+
+        if (radius >= LABEL_RADIUS) {
+          ctx.fillStyle = "#ffffff"
+          ctx.font = "bold 12px sans-serif"
+          ctx.textAlign = "center"
+          ctx.textBaseline = "middle"
+          const value =
+            revealedNodes && !revealedNodes.has(node.id)
+              ? "?"
+              : view === "gradients" && node.gradient !== undefined
+                ? node.gradient.toExponential(0)
+                : node.activation.toFixed(2)
+          ctx.fillText(value, cx, cy)
+        }
+      })
+    })
+
+    // Layer names stay pinned to the top edge while the network pans underneath
+    ctx.globalAlpha = 1
+    ctx.fillStyle = "#d1d5db"
+    ctx.font = "500 13px sans-serif"
+    ctx.textAlign = "center"
+    ctx.textBaseline = "top"
+    architecture.forEach((width, layer) => {
+      ctx.fillText(`${layerName(layer, layerCount)} (${width})`, toScreenX(layerX(layer, layerCount)), 6)
+    })
+  }, [
+    network,
+    layers,
+    nodes,
+    architecture,
+    view,
+    size,
+    current,
+    selectedNeuron,
+    selectedConnection,
+    tracedNodes,
+    tracedConnections,
+    revealedNodes,
+    isActive,
+  ])
+
+  // The neuron under a screen point: a circle's area, or a cell of an activation strip
+  const neuronAt = (px: number, py: number) => {
+    const { summarized, toScreenX, toScreenY } = createProjection(current, architecture)
+    const layerCount = architecture.length
+    for (let layer = 0; layer < layerCount; layer++) {
+      const width = architecture[layer]
+      const cx = toScreenX(layerX(layer, layerCount))
+      const reach = Math.max(4, summarized[layer] ? STRIP_WIDTH / 2 : nodeRadius(width) * current.scale)
+      if (Math.abs(px - cx) > reach) continue
+      const position = Math.round(((py - current.y) / current.scale - BAND_TOP) / nodePitch(width) - 1)
+      const node = layers[layer][position]
+      if (!node) continue
+      if (summarized[layer] || Math.hypot(px - cx, py - toScreenY(nodeY(position, width))) <= reach) return node
+    }
+    return null
+  }
+
+  const handleClick = (px: number, py: number) => {
+    const node = neuronAt(px, py)
+    if (node) {
+      onNeuronClick(node)
+      return
+    }
+    let closest: { index: number; distance: number } | null = null
+    for (const { index, x1, y1, x2, y2 } of hitSegments.current) {
+      const distance = segmentDistance(px, py, x1, y1, x2, y2)
+      if (distance <= 5 && (!closest || distance < closest.distance)) closest = { index, distance }
+    }
+    if (closest) onConnectionClick(closest.index)
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full">
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId)
+          drag.current = { startX: event.clientX, startY: event.clientY, from: current, moved: false }
+        }}
+        onPointerMove={(event) => {
+          const state = drag.current
+          if (!state) return
+          const dx = event.clientX - state.startX
+          const dy = event.clientY - state.startY
+          if (!state.moved && Math.hypot(dx, dy) < 3) return
+          state.moved = true
+          setViewport({ ...state.from, x: state.from.x + dx, y: state.from.y + dy })
+        }}
+        onPointerUp={(event) => {
+          const state = drag.current
+          drag.current = null
+          if (!state || state.moved) return
+          const rect = event.currentTarget.getBoundingClientRect()
+          handleClick(event.clientX - rect.left, event.clientY - rect.top)
+        }}
+      />
+      <div className="absolute top-2 right-2 flex gap-1">
+        {[
+          { label: "Zoom in", icon: ZoomIn, onClick: () => zoomAt(1.5, size.width / 2, size.height / 2) },
+          { label: "Zoom out", icon: ZoomOut, onClick: () => zoomAt(1 / 1.5, size.width / 2, size.height / 2) },
+          { label: "Fit network", icon: Maximize2, onClick: () => setViewport(null) },
+        ].map(({ label, icon: Icon, onClick }) => (
+          <button
+            key={label}
+            onClick={onClick}
+            title={label}
+            className="p-1 rounded bg-gray-800/90 border border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+      </div>
+      <div className="absolute bottom-1 left-2 text-[11px] text-gray-500 pointer-events-none">
+        Scroll to zoom, drag to pan • {(current.scale / (fit.scale || 1)).toFixed(1)}× •{" "}
+        {drawnEdges.toLocaleString()} of {connectionCount.toLocaleString()} connections drawn
+      </div>
+    </div>
+  )
+}
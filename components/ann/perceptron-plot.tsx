@@ -0,0 +1,116 @@
+"use client"
+
+import { useMemo } from "react"
+import type { PerceptronLine } from "@/lib/ann/perceptron"
+import type { Sample } from "@/lib/ann/types"
+
+interface PerceptronPlotProps {
+  samples: Sample[]
+  lines: PerceptronLine[]
+  // Boundaries before the latest correction, drawn faded behind the current ones
+  previous?: PerceptronLine[]
+  // Sample that triggered the latest correction
+  highlight?: number
+}
+
+const SIZE = 300
+const CLASS_COLORS = ["#f59e0b", "#3b82f6", "#10b981", "#ec4899"]
+
+const label = (target: number[]) =>
+  target.length === 1 ? (target[0] >= 0.5 ? 1 : 0) : target.reduce((best, v, i) => (v > target[best] ? i : best), 0)
+
+interface Bounds {
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+// Where w₀x + w₁y + b = 0 crosses the plot, or null if it misses it (or the weights are all zero)
+const clipLine = ({ weights, bias }: PerceptronLine, bounds: Bounds) => {
+  const [a = 0, b = 0] = weights
+  const points: [number, number][] = []
+  if (Math.abs(b) > 1e-12) {
+    for (const x of [bounds.minX, bounds.maxX]) {
+      const y = -(a * x + bias) / b
+      if (y >= bounds.minY && y <= bounds.maxY) points.push([x, y])
+    }
+  }
+  if (Math.abs(a) > 1e-12) {
+    for (const y of [bounds.minY, bounds.maxY]) {
+      const x = -(b * y + bias) / a
+      if (x >= bounds.minX && x <= bounds.maxX) points.push([x, y])
+    }
+  }
+  return points.length >= 2 ? [points[0], points[points.length - 1]] : null
+}
+
+export function PerceptronPlot({ samples, lines, previous, highlight }: PerceptronPlotProps) {
+  const bounds = useMemo(() => {
+    const xs = samples.map((s) => s.input[0])
+    const ys = samples.map((s) => s.input[1])
+    const pad = 0.2
+    return {
+      minX: Math.min(...xs) - pad,
+      maxX: Math.max(...xs) + pad,
+      minY: Math.min(...ys) - pad,
+      maxY: Math.max(...ys) + pad,
+    }
+  }, [samples])
+
+  const toScreen = ([x, y]: number[]) => ({
+    x: ((x - bounds.minX) / (bounds.maxX - bounds.minX)) * SIZE,
+    y: ((bounds.maxY - y) / (bounds.maxY - bounds.minY)) * SIZE,
+  })
+  const fires = (line: PerceptronLine, input: number[]) =>
+    line.weights.reduce((sum, w, i) => sum + w * (input[i] ?? 0), line.bias) >= 0
+  // A single neuron separates class 1 from class 0; with several, each one picks out its own class
+  const lineColor = (index: number) => (lines.length === 1 ? "#f9fafb" : CLASS_COLORS[index % CLASS_COLORS.length])
+
+  const renderLine = (line: PerceptronLine, index: number, faded: boolean) => {
+    const clipped = clipLine(line, bounds)
+    if (!clipped) return null
+    const [from, to] = clipped.map(toScreen)
+    return (
+      <line
+        key={`${faded ? "previous" : "current"}-${index}`}
+        x1={from.x}
+        y1={from.y}
+        x2={to.x}
+        y2={to.y}
+        stroke={lineColor(index)}
+        strokeWidth={faded ? 1.5 : 2.5}
+        strokeDasharray={faded ? "5 4" : undefined}
+        opacity={faded ? 0.35 : 1}
+      />
+    )
+  }
+
+  return (
+    <svg className="w-full h-full" viewBox={`0 0 ${SIZE} ${SIZE}`} preserveAspectRatio="xMidYMid meet">
+      {previous?.map((line, index) => renderLine(line, index, true))}
+      {lines.map((line, index) => renderLine(line, index, false))}
+
+      {/* Training data; misclassified samples get a red outline */}
+      {samples.map((sample, index) => {
+        const { x, y } = toScreen(sample.input)
+        const target = label(sample.target)
+        const wrong =
+          lines.length === 1
+            ? fires(lines[0], sample.input) !== (target === 1)
+            : lines.some((line, j) => fires(line, sample.input) !== (sample.target[j] >= 0.5))
+        return (
+          <circle
+            key={index}
+            cx={x}
+            cy={y}
+            r={index === highlight ? 6 : 3.5}
+            fill={CLASS_COLORS[target % CLASS_COLORS.length]}
+            stroke={index === highlight ? "#fde047" : wrong ? "#ef4444" : "#f9fafb"}
+            strokeWidth={index === highlight ? 2.5 : wrong ? 1.5 : 0.75}
+          />
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AudioWaveform } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { LineChart } from "@/components/line-chart"
+import { adexPresets, simulateAdEx, type AdExPresetName } from "@/lib/bnn/adex"
+import { izhikevichPresets, simulateIzhikevich, type IzhikevichPresetName } from "@/lib/bnn/izhikevich"
+import { defaultCellTypes, neuronModels } from "@/lib/bnn/models"
+
+type SpikingModel = "izhikevich" | "adex"
+
+const WINDOW = 300
+const ONSET = 20
+const DURATION = 250
+const SAMPLE = 0.2
+// Izhikevich's demonstrations drive every preset with the same dimensionless current
+const IZHIKEVICH_CURRENT = 10
+
+const formatTime = (t: number) => `${t.toFixed(0)} ms`
+
+// Firing pattern of one Izhikevich or AdEx preset under a long current step, with the recovery variable
+// that shapes it. Adaptation shows as lengthening intervals between spikes.
+export function FiringPatternPanel() {
+  const [model, setModel] = useState<SpikingModel>("izhikevich")
+  const [izhikevichPreset, setIzhikevichPreset] = useState<IzhikevichPresetName>(
+    defaultCellTypes.izhikevich.pyramidal,
+  )
+  const [adexPreset, setAdexPreset] = useState<AdExPresetName>(defaultCellTypes.adex.pyramidal)
+  const [izhikevichCurrent, setIzhikevichCurrent] = useState(IZHIKEVICH_CURRENT)
+  const [adexCurrent, setAdexCurrent] = useState(adexPresets[defaultCellTypes.adex.pyramidal].current)
+
+  const amplitude = model === "izhikevich" ? izhikevichCurrent : adexCurrent
+  const trace = useMemo(() => {
+    const step = { amplitude, onset: ONSET, duration: DURATION }
+    return model === "izhikevich"
+      ? simulateIzhikevich(izhikevichPresets[izhikevichPreset], step, WINDOW, SAMPLE)
+      : simulateAdEx(adexPresets[adexPreset], step, WINDOW, SAMPLE)
+  }, [model, izhikevichPreset, adexPreset, amplitude])
+
+  const intervals = trace.spikeTimes.slice(1).map((t, i) => t - trace.spikeTimes[i])
+  const preset = model === "izhikevich" ? izhikevichPresets[izhikevichPreset] : adexPresets[adexPreset]
+  const presets: Record<string, { label: string }> = model === "izhikevich" ? izhikevichPresets : adexPresets
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AudioWaveform className="h-5 w-5" />
+          Firing Patterns
+        </CardTitle>
+        <CardDescription>
+          A {DURATION} ms current step into one neuron. The network uses the same presets for each neuron type.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Model</label>
+            <Select value={model} onValueChange={(value) => setModel(value as SpikingModel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["izhikevich", "adex"] as const).map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {neuronModels[name].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Preset</label>
+            <Select
+              value={model === "izhikevich" ? izhikevichPreset : adexPreset}
+              onValueChange={(value) => {
+                if (model === "izhikevich") {
+                  setIzhikevichPreset(value as IzhikevichPresetName)
+                } else {
+                  setAdexPreset(value as AdExPresetName)
+                  setAdexCurrent(adexPresets[value as AdExPresetName].current)
+                }
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(presets).map(([name, params]) => (
+                  <SelectItem key={name} value={name}>
+                    {params.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              Injected Current: {model === "izhikevich" ? izhikevichCurrent.toFixed(1) : `${adexCurrent} pA`}
+            </label>
+            {model === "izhikevich" ? (
+              <Slider
+                value={[izhikevichCurrent]}
+                onValueChange={(value) => setIzhikevichCurrent(value[0])}
+                min={0}
+                max={20}
+                step={0.5}
+              />
+            ) : (
+              <Slider
+                value={[adexCurrent]}
+                onValueChange={(value) => setAdexCurrent(value[0])}
+                min={0}
+                max={800}
+                step={10}
+              />
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">{preset.description}</p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-medium mb-1">Membrane Voltage (mV)</h4>
+            <LineChart
+              series={[{ label: "V", color: "#0ea5e9", values: trace.voltage }]}
+              xStart={0}
+              xStep={SAMPLE}
+              formatX={formatTime}
+              yMin={-80}
+              yMax={40}
+              formatY={(v) => v.toFixed(0)}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-1">
+              {model === "izhikevich" ? "Recovery Variable u" : "Adaptation Current w (pA)"}
+            </h4>
+            <LineChart
+              series={[{ label: model === "izhikevich" ? "u" : "w", color: "#f59e0b", values: trace.recovery }]}
+              xStart={0}
+              xStep={SAMPLE}
+              formatX={formatTime}
+              formatY={(v) => v.toFixed(0)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <span className="text-muted-foreground">Spikes:</span>
+            <div className="font-mono font-semibold">{trace.spikeTimes.length}</div>
+          </div>
+          <div>
+            <span className="text-muted-foreground">First Interval:</span>
+            <div className="font-mono font-semibold">
+              {intervals.length > 0 ? `${intervals[0].toFixed(1)} ms` : "—"}
+            </div>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Last Interval:</span>
+            <div className="font-mono font-semibold">
+              {intervals.length > 0 ? `${intervals[intervals.length - 1].toFixed(1)} ms` : "—"}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
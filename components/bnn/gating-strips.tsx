@@ -0,0 +1,110 @@
+"use client"
+
+import type { GatingState, IonicCurrents } from "@/lib/bnn/hodgkin-huxley"
+
+// The gates of a Hodgkin-Huxley membrane at the end of a frame and the currents they let through
+export interface GatingSample {
+  gates: GatingState
+  currents: IonicCurrents
+}
+
+interface GatingStripsProps {
+  // One sample per frame, recorded alongside the voltage trace
+  samples: GatingSample[]
+  // Top of the strips inside the parent SVG, which spreads the recording over the same 400 units as its voltage
+  top: number
+}
+
+const WIDTH = 400
+const STRIP = 70
+const GAP = 20
+export const GATING_STRIPS_HEIGHT = 2 * (STRIP + GAP)
+
+const GATES = [
+  { key: "m", label: "m", color: "#ef4444" },
+  { key: "h", label: "h", color: "#f59e0b" },
+  { key: "n", label: "n", color: "#22c55e" },
+] as const
+const CURRENTS = [
+  { key: "sodium", label: "I_Na", color: "#ef4444" },
+  { key: "potassium", label: "I_K", color: "#22c55e" },
+  { key: "leak", label: "I_leak", color: "#64748b" },
+] as const
+
+// The gates of a Hodgkin-Huxley neuron and the Na⁺, K⁺ and leak currents they let through, drawn under its
+// voltage trace sample for sample
+export function GatingStrips({ samples, top }: GatingStripsProps) {
+  const length = samples.length
+  if (length < 2) return null
+  // Currents share one symmetric scale so their sizes compare directly
+  const maxCurrent = samples.reduce(
+    (max, { currents }) =>
+      Math.max(max, Math.abs(currents.sodium), Math.abs(currents.potassium), Math.abs(currents.leak)),
+    1,
+  )
+
+  const line = (values: number[], toY: (value: number) => number) =>
+    values.map((value, index) => `${(index / (length - 1)) * WIDTH},${toY(value)}`).join(" ")
+  const gatesTop = top + GAP
+  const currentsTop = gatesTop + STRIP + GAP
+  const gateY = (value: number) => gatesTop + (1 - value) * STRIP
+  const currentY = (value: number) => currentsTop + STRIP / 2 - (value / maxCurrent) * (STRIP / 2)
+
+  return (
+    <g>
+      <text x={5} y={gatesTop - 5} className="text-xs fill-foreground">
+        Gates (0–1)
+      </text>
+      {GATES.map((gate, index) => (
+        <text key={gate.key} x={300 + index * 30} y={gatesTop - 5} className="text-xs" fill={gate.color}>
+          {gate.label}
+        </text>
+      ))}
+      <rect x={0} y={gatesTop} width={WIDTH} height={STRIP} fill="none" stroke="hsl(var(--border))" opacity={0.5} />
+      {GATES.map((gate) => (
+        <polyline
+          key={gate.key}
+          fill="none"
+          stroke={gate.color}
+          strokeWidth={1.5}
+          points={line(
+            samples.map((sample) => sample.gates[gate.key]),
+            gateY,
+          )}
+        />
+      ))}
+
+      <text x={5} y={currentsTop - 5} className="text-xs fill-foreground">
+        Currents (±{maxCurrent.toFixed(0)} µA/cm², outward +)
+      </text>
+      {CURRENTS.map((current, index) => (
+        <text key={current.key} x={270 + index * 40} y={currentsTop - 5} className="text-xs" fill={current.color}>
+          {current.label}
+        </text>
+      ))}
+      <rect x={0} y={currentsTop} width={WIDTH} height={STRIP} fill="none" stroke="hsl(var(--border))" opacity={0.5} />
+      <line
+        x1={0}
+        y1={currentY(0)}
+        x2={WIDTH}
+        y2={currentY(0)}
+        stroke="#64748b"
+        strokeWidth={1}
+        strokeDasharray="2,2"
+        opacity={0.5}
+      />
+      {CURRENTS.map((current) => (
+        <polyline
+          key={current.key}
+          fill="none"
+          stroke={current.color}
+          strokeWidth={1.5}
+          points={line(
+            samples.map((sample) => sample.currents[current.key]),
+            currentY,
+          )}
+        />
+      ))}
+    </g>
+  )
+}
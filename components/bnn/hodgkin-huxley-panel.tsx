@@ -0,0 +1,116 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Waves } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { LineChart } from "@/components/line-chart"
+import { HH, simulateHodgkinHuxley } from "@/lib/bnn/hodgkin-huxley"
+
+// Length of the recorded window and when the current step starts (ms)
+const WINDOW = 60
+const ONSET = 5
+const SAMPLE = 0.1
+
+const formatTime = (t: number) => `${t.toFixed(0)} ms`
+
+// One Hodgkin-Huxley neuron driven by a current step: the voltage, the three gates and the ionic currents
+// behind it, on a shared time axis
+export function HodgkinHuxleyPanel() {
+  const [amplitude, setAmplitude] = useState(10)
+  const [duration, setDuration] = useState(30)
+
+  const trace = useMemo(
+    () => simulateHodgkinHuxley({ amplitude, onset: ONSET, duration }, WINDOW, SAMPLE),
+    [amplitude, duration],
+  )
+  const spikes = trace.voltage.filter((v, i) => i > 0 && trace.voltage[i - 1] < 0 && v >= 0).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Waves className="h-5 w-5" />
+          Hodgkin-Huxley Current Clamp
+        </CardTitle>
+        <CardDescription>
+          A current step into one isolated resting neuron, apart from the network, integrated every 0.01 ms. Na⁺
+          activation (m) opens first and drives the upstroke; inactivation (h) and slower K⁺ activation (n) end the
+          spike and cause the undershoot. Select a neuron in the network tab to follow its own gates and currents.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Injected Current: {amplitude.toFixed(1)} µA/cm²</label>
+            <Slider value={[amplitude]} onValueChange={(value) => setAmplitude(value[0])} min={0} max={30} step={0.5} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              Pulse: {ONSET}–{ONSET + duration} ms
+            </label>
+            <Slider
+              value={[duration]}
+              onValueChange={(value) => setDuration(value[0])}
+              min={1}
+              max={WINDOW - ONSET}
+              step={1}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div>
+            <h4 className="text-sm font-medium mb-1">Membrane Voltage (mV)</h4>
+            <LineChart
+              series={[
+                { label: `V (${spikes} spike${spikes === 1 ? "" : "s"})`, color: "#0ea5e9", values: trace.voltage },
+              ]}
+              xStart={0}
+              xStep={SAMPLE}
+              formatX={formatTime}
+              yMin={-80}
+              yMax={50}
+              formatY={(v) => v.toFixed(0)}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-1">Gating Variables</h4>
+            <LineChart
+              series={[
+                { label: "m (Na⁺ activation)", color: "#ef4444", values: trace.gates.map((g) => g.m) },
+                { label: "h (Na⁺ inactivation)", color: "#f59e0b", values: trace.gates.map((g) => g.h) },
+                { label: "n (K⁺ activation)", color: "#22c55e", values: trace.gates.map((g) => g.n) },
+              ]}
+              xStart={0}
+              xStep={SAMPLE}
+              formatX={formatTime}
+              yMin={0}
+              yMax={1}
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-1">Ionic Currents (µA/cm², outward +)</h4>
+            <LineChart
+              series={[
+                { label: "I_Na", color: "#ef4444", values: trace.currents.map((c) => c.sodium) },
+                { label: "I_K", color: "#22c55e", values: trace.currents.map((c) => c.potassium) },
+                { label: "I_leak", color: "#64748b", values: trace.currents.map((c) => c.leak) },
+              ]}
+              xStart={0}
+              xStep={SAMPLE}
+              formatX={formatTime}
+              formatY={(v) => v.toFixed(0)}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          g<sub>Na</sub> = {HH.sodiumConductance}, g<sub>K</sub> = {HH.potassiumConductance}, g<sub>L</sub> ={" "}
+          {HH.leakConductance} mS/cm²; E<sub>Na</sub> = {HH.sodiumReversal}, E<sub>K</sub> = {HH.potassiumReversal},
+          E<sub>L</sub> = {HH.leakReversal} mV
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
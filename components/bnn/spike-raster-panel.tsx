@@ -0,0 +1,187 @@
+"use client"
+
+import { useState } from "react"
+import { BarChart3 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { populationRate } from "@/lib/bnn/analysis"
+import type { BiologicalNeuron, NeuronType, SpikeEvent } from "@/lib/bnn/types"
+
+interface SpikeRasterPanelProps {
+  neurons: BiologicalNeuron[]
+  spikes: SpikeEvent[]
+  // Current simulation time; the plots end here
+  time: number
+  // How much recent activity to show (ms)
+  window: number
+}
+
+const WIDTH = 800
+const LEFT = 70
+const RIGHT = 10
+const ROW_HEIGHT = 14
+const RATE_HEIGHT = 140
+const AXIS = 18
+
+const TYPE_COLORS: Record<NeuronType, string> = {
+  pyramidal: "#9333ea",
+  interneuron: "#16a34a",
+  motor: "#dc2626",
+}
+
+// Network-wide spike raster (one row per neuron, one tick per spike) over a population rate histogram
+// on the same time axis
+export function SpikeRasterPanel({ neurons, spikes, time, window }: SpikeRasterPanelProps) {
+  const [binWidth, setBinWidth] = useState(20)
+
+  const start = Math.max(0, time - window)
+  const span = Math.max(time - start, 1)
+  const plotWidth = WIDTH - LEFT - RIGHT
+  const toX = (t: number) => LEFT + ((t - start) / span) * plotWidth
+
+  const visible = spikes.filter((spike) => spike.time >= start && spike.time <= time)
+  const rows = new Map(neurons.map((neuron, index) => [neuron.id, index]))
+  const rasterHeight = neurons.length * ROW_HEIGHT
+
+  const bins = populationRate(visible, neurons.length, start, time, binWidth)
+  const peakRate = bins.reduce((max, bin) => Math.max(max, bin.rate), 0)
+  // Round the axis up to a tidy number so it doesn't jitter with every frame
+  const rateScale = Math.max(10, Math.ceil(peakRate / 10) * 10)
+  const meanRate = neurons.length > 0 && time > start ? visible.length / neurons.length / ((time - start) / 1000) : 0
+
+  const timeTicks = [0, 0.25, 0.5, 0.75, 1].map((t) => start + t * span)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Spike Raster & Population Rate
+        </CardTitle>
+        <CardDescription>
+          Every recorded spike of the last {window} ms, and the mean firing rate per neuron binned over time (PSTH)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium">Bin Width: {binWidth} ms</label>
+            <Slider value={[binWidth]} onValueChange={(value) => setBinWidth(value[0])} min={1} max={200} step={1} />
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Mean Rate</span>
+            <span className="font-mono">{meanRate.toFixed(1)} Hz</span>
+          </div>
+        </div>
+
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${rasterHeight + AXIS}`}>
+          {neurons.map((neuron, index) => (
+            <g key={neuron.id}>
+              <rect
+                x={LEFT}
+                y={index * ROW_HEIGHT}
+                width={plotWidth}
+                height={ROW_HEIGHT}
+                fill={index % 2 === 0 ? "var(--muted)" : "transparent"}
+                opacity={0.4}
+              />
+              <text
+                x={LEFT - 6}
+                y={index * ROW_HEIGHT + ROW_HEIGHT - 4}
+                textAnchor="end"
+                className="text-[10px] fill-muted-foreground"
+              >
+                {neuron.id.replace("neuron-", "#")} {neuron.type.slice(0, 3)}
+              </text>
+            </g>
+          ))}
+
+          {visible.map((spike, index) => {
+            const row = rows.get(spike.neuronId)
+            const neuron = row === undefined ? undefined : neurons[row]
+            if (row === undefined || !neuron) return null
+            return (
+              <line
+                key={`${spike.neuronId}-${spike.time}-${index}`}
+                x1={toX(spike.time)}
+                y1={row * ROW_HEIGHT + 2}
+                x2={toX(spike.time)}
+                y2={(row + 1) * ROW_HEIGHT - 2}
+                stroke={TYPE_COLORS[neuron.type]}
+                strokeWidth={2}
+              />
+            )
+          })}
+
+          {timeTicks.map((tick) => (
+            <text
+              key={tick}
+              x={toX(tick)}
+              y={rasterHeight + AXIS - 4}
+              textAnchor="middle"
+              className="text-[10px] fill-muted-foreground"
+            >
+              {tick.toFixed(0)} ms
+            </text>
+          ))}
+        </svg>
+
+        <svg className="w-full" viewBox={`0 0 ${WIDTH} ${RATE_HEIGHT + AXIS}`}>
+          {[0, 0.5, 1].map((fraction) => {
+            const y = RATE_HEIGHT - fraction * (RATE_HEIGHT - 10)
+            return (
+              <g key={fraction}>
+                <line x1={LEFT} y1={y} x2={WIDTH - RIGHT} y2={y} stroke="var(--border)" strokeWidth={1} />
+                <text x={LEFT - 6} y={y + 3} textAnchor="end" className="text-[10px] fill-muted-foreground">
+                  {(fraction * rateScale).toFixed(0)} Hz
+                </text>
+              </g>
+            )
+          })}
+
+          {bins.map((bin) => {
+            const height = (bin.rate / rateScale) * (RATE_HEIGHT - 10)
+            const x = toX(Math.max(bin.start, start))
+            return (
+              <rect
+                key={bin.start}
+                x={x}
+                y={RATE_HEIGHT - height}
+                width={Math.max(toX(Math.min(bin.start + binWidth, time)) - x - 0.5, 0.5)}
+                height={height}
+                fill="#0ea5e9"
+                opacity={0.8}
+              >
+                <title>
+                  {bin.start.toFixed(0)}–{(bin.start + binWidth).toFixed(0)} ms: {bin.count} spikes,{" "}
+                  {bin.rate.toFixed(1)} Hz
+                </title>
+              </rect>
+            )
+          })}
+
+          {timeTicks.map((tick) => (
+            <text
+              key={tick}
+              x={toX(tick)}
+              y={RATE_HEIGHT + AXIS - 4}
+              textAnchor="middle"
+              className="text-[10px] fill-muted-foreground"
+            >
+              {tick.toFixed(0)} ms
+            </text>
+          ))}
+        </svg>
+
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {(Object.keys(TYPE_COLORS) as NeuronType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1 capitalize">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: TYPE_COLORS[type] }} />
+              {type}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,282 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { GitCompareArrows } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { LineChart } from "@/components/line-chart"
+import { pairingProtocol, stdpWindow, type StdpConfig } from "@/lib/bnn/stdp"
+import type { BiologicalNeuron, Synapse } from "@/lib/bnn/types"
+
+// Synaptic strengths sampled at a fixed interval of model time, in the order of the network's synapse list
+export interface WeightSample {
+  time: number
+  weights: number[]
+}
+
+interface StdpPanelProps {
+  config: StdpConfig
+  onConfigChange: (config: StdpConfig) => void
+  neurons: BiologicalNeuron[]
+  synapses: Synapse[]
+  weightHistory: WeightSample[]
+  // Model time between samples (ms)
+  sampleInterval: number
+  selectedSynapse: string | null
+  onSelectSynapse: (id: string) => void
+}
+
+// Offsets t_post − t_pre the pairing protocol sweeps (ms)
+const DELTAS = Array.from({ length: 41 }, (_, i) => -100 + i * 5)
+
+const CELL = 28
+const MATRIX_LEFT = 44
+const MATRIX_TOP = 36
+
+const label = (id: string) => id.replace("neuron-", "#")
+const formatTime = (t: number) => `${(t / 1000).toFixed(2)} s`
+
+// STDP settings, the weight matrix as it evolves, the history of one synapse and the learning window
+// measured by a pairing protocol
+export function StdpPanel({
+  config,
+  onConfigChange,
+  neurons,
+  synapses,
+  weightHistory,
+  sampleInterval,
+  selectedSynapse,
+  onSelectSynapse,
+}: StdpPanelProps) {
+  const [pairs, setPairs] = useState(30)
+
+  const update = (change: Partial<StdpConfig>) => onConfigChange({ ...config, ...change })
+
+  const protocol = useMemo(() => pairingProtocol(config, DELTAS, pairs), [config, pairs])
+  const rule = DELTAS.map((delta) => stdpWindow(delta, config))
+
+  const index = new Map(neurons.map((neuron, i) => [neuron.id, i]))
+  const synapseIndex = synapses.findIndex((s) => s.id === selectedSynapse)
+  const selected = synapseIndex >= 0 ? synapses[synapseIndex] : undefined
+  const history = weightHistory.map((sample) => sample.weights[synapseIndex])
+  // Colour intensity is relative to the upper bound, or to the strongest synapse if that's higher
+  const scale = synapses.reduce((max, s) => Math.max(max, s.strength), config.maxWeight) || 1
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompareArrows className="h-5 w-5" />
+          Spike-Timing-Dependent Plasticity
+        </CardTitle>
+        <CardDescription>
+          A presynaptic spike arriving before the postsynaptic neuron fires strengthens an excitatory synapse; arriving
+          after weakens it. The change shrinks exponentially with the gap between the two spikes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center justify-between md:col-span-2">
+            <label className="text-sm font-medium">Apply STDP to the network</label>
+            <Switch checked={config.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">A+ (potentiation): {config.potentiation.toFixed(3)}</label>
+            <Slider
+              value={[config.potentiation]}
+              onValueChange={(value) => update({ potentiation: value[0] })}
+              min={0}
+              max={0.05}
+              step={0.001}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">A− (depression): {config.depression.toFixed(3)}</label>
+            <Slider
+              value={[config.depression]}
+              onValueChange={(value) => update({ depression: value[0] })}
+              min={0}
+              max={0.05}
+              step={0.001}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">τ+: {config.potentiationTime} ms</label>
+            <Slider
+              value={[config.potentiationTime]}
+              onValueChange={(value) => update({ potentiationTime: value[0] })}
+              min={5}
+              max={100}
+              step={1}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">τ−: {config.depressionTime} ms</label>
+            <Slider
+              value={[config.depressionTime]}
+              onValueChange={(value) => update({ depressionTime: value[0] })}
+              min={5}
+              max={100}
+              step={1}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium">
+              Weight Bounds: {config.minWeight.toFixed(2)} – {config.maxWeight.toFixed(2)}
+            </label>
+            <Slider
+              value={[config.minWeight, config.maxWeight]}
+              onValueChange={(value) => update({ minWeight: value[0], maxWeight: value[1] })}
+              min={0}
+              max={2}
+              step={0.05}
+              minStepsBetweenThumbs={1}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-medium mb-1">Weight Matrix</h4>
+            <p className="text-xs text-muted-foreground mb-2">
+              Rows are presynaptic, columns postsynaptic neurons. Click a cell to follow that synapse.
+            </p>
+            <svg
+              className="w-full max-w-md"
+              viewBox={`0 0 ${MATRIX_LEFT + neurons.length * CELL + 4} ${MATRIX_TOP + neurons.length * CELL + 4}`}
+            >
+              {neurons.map((neuron, i) => (
+                <g key={neuron.id}>
+                  <text
+                    x={MATRIX_LEFT - 6}
+                    y={MATRIX_TOP + i * CELL + CELL / 2 + 4}
+                    textAnchor="end"
+                    className="text-[10px] fill-muted-foreground"
+                  >
+                    {label(neuron.id)}
+                  </text>
+                  <text
+                    x={MATRIX_LEFT + i * CELL + CELL / 2}
+                    y={MATRIX_TOP - 8}
+                    textAnchor="middle"
+                    className="text-[10px] fill-muted-foreground"
+                  >
+                    {label(neuron.id)}
+                  </text>
+                </g>
+              ))}
+              {neurons.map((_, row) =>
+                neurons.map((__, column) => (
+                  <rect
+                    key={`${row}-${column}`}
+                    x={MATRIX_LEFT + column * CELL}
+                    y={MATRIX_TOP + row * CELL}
+                    width={CELL - 2}
+                    height={CELL - 2}
+                    fill="var(--muted)"
+                    opacity={0.5}
+                  />
+                )),
+              )}
+              {synapses.map((synapse) => {
+                const row = index.get(synapse.preNeuronId)
+                const column = index.get(synapse.postNeuronId)
+                if (row === undefined || column === undefined) return null
+                const inhibitory = synapse.neurotransmitter === "gaba"
+                return (
+                  <rect
+                    key={synapse.id}
+                    x={MATRIX_LEFT + column * CELL}
+                    y={MATRIX_TOP + row * CELL}
+                    width={CELL - 2}
+                    height={CELL - 2}
+                    fill={inhibitory ? "#ef4444" : "#22c55e"}
+                    fillOpacity={0.15 + 0.85 * (synapse.strength / scale)}
+                    stroke={synapse.id === selectedSynapse ? "#3b82f6" : "none"}
+                    strokeWidth={3}
+                    className="cursor-pointer"
+                    onClick={() => onSelectSynapse(synapse.id)}
+                  >
+                    <title>
+                      {label(synapse.preNeuronId)} → {label(synapse.postNeuronId)} ({synapse.neurotransmitter}):{" "}
+                      {synapse.strength.toFixed(3)}
+                    </title>
+                  </rect>
+                )
+              })}
+            </svg>
+            <div className="flex gap-4 text-xs text-muted-foreground mt-1">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 bg-green-500" /> Excitatory (plastic)
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 bg-red-500" /> Inhibitory (fixed)
+              </span>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-1">Selected Synapse</h4>
+            <Select value={selectedSynapse ?? undefined} onValueChange={onSelectSynapse}>
+              <SelectTrigger className="mb-2">
+                <SelectValue placeholder="Choose a synapse" />
+              </SelectTrigger>
+              <SelectContent>
+                {synapses.map((synapse) => (
+                  <SelectItem key={synapse.id} value={synapse.id}>
+                    {label(synapse.preNeuronId)} → {label(synapse.postNeuronId)} ({synapse.neurotransmitter})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected ? (
+              <>
+                <LineChart
+                  series={[
+                    { label: `Strength (now ${selected.strength.toFixed(3)})`, color: "#22c55e", values: history },
+                  ]}
+                  xStart={weightHistory[0]?.time ?? 0}
+                  xStep={sampleInterval}
+                  formatX={formatTime}
+                  yMin={config.minWeight}
+                  yMax={Math.max(config.maxWeight, selected.strength)}
+                  formatY={(v) => v.toFixed(2)}
+                />
+                {selected.neurotransmitter !== "glutamate" && (
+                  <p className="text-xs text-muted-foreground mt-1">Inhibitory synapses keep their strength.</p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Pick a synapse to follow its weight over time.</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-1">STDP Window</h4>
+          <p className="text-xs text-muted-foreground mb-2">
+            Pairing protocol: for each Δt = t<sub>post</sub> − t<sub>pre</sub>, a synapse starting mid-range
+            receives {pairs} pre/post pairs at 1 Hz through the same updates the network uses. Large amplitudes or
+            many pairs run into the weight bounds, which flattens the measured curve near Δt = 0.
+          </p>
+          <div className="space-y-2 mb-2 max-w-sm">
+            <label className="text-sm font-medium">Pairings: {pairs}</label>
+            <Slider value={[pairs]} onValueChange={(value) => setPairs(value[0])} min={1} max={100} step={1} />
+          </div>
+          <LineChart
+            series={[
+              { label: "Rule Δw(Δt)", color: "#64748b", values: rule, dashed: true },
+              { label: "Measured Δw per pairing", color: "#0ea5e9", values: protocol.map((r) => r.change) },
+            ]}
+            xStart={DELTAS[0]}
+            xStep={DELTAS[1] - DELTAS[0]}
+            formatX={(t) => `${t} ms`}
+            formatY={(v) => v.toFixed(3)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { useState } from "react"
+import { FileSpreadsheet } from "lucide-react"
+import {
+  buildCsvDataset,
+  distinctValues,
+  isNumericColumn,
+  MAX_CLASSES,
+  normalizations,
+  parseCsv,
+  type CsvDataset,
+  type CsvTable,
+  type Normalization,
+  type TargetType,
+} from "@/lib/csv"
+
+interface CsvImportProps {
+  onLoad: (name: string, dataset: CsvDataset) => void
+  // Feature columns the page can use
+  minFeatures?: number
+  maxFeatures?: number
+  targetTypes?: TargetType[]
+  normalizationOptions?: Normalization[]
+  // Interval min-max scaling maps onto
+  range?: [number, number]
+  maxClasses?: number
+  disabled?: boolean
+}
+
+const TARGET_TYPE_LABELS: Record<TargetType, string> = {
+  classes: "Classes (one-hot)",
+  numeric: "Numeric value",
+}
+
+// Drop zone and column picker for an uploaded CSV. Everything happens in the browser; the file never leaves it.
+// Styled with inherited colours so it sits on both the dark ANN panels and the themed ML cards.
+export function CsvImport({
+  onLoad,
+  minFeatures = 1,
+  maxFeatures = Infinity,
+  targetTypes = ["classes", "numeric"],
+  normalizationOptions = ["minmax", "zscore", "none"],
+  range,
+  maxClasses = MAX_CLASSES,
+  disabled = false,
+}: CsvImportProps) {
+  const [fileName, setFileName] = useState("")
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [dragging, setDragging] = useState(false)
+  const [target, setTarget] = useState(0)
+  const [features, setFeatures] = useState<number[]>([])
+  const [targetType, setTargetType] = useState<TargetType>(targetTypes[0])
+  const [normalization, setNormalization] = useState<Normalization>(normalizationOptions[0])
+
+  // Class targets suit text columns and numbers with few distinct values; anything else is predicted as a value
+  const defaultTargetType = (parsed: CsvTable, column: number): TargetType => {
+    const preferred =
+      !isNumericColumn(parsed, column) || distinctValues(parsed, column).length <= maxClasses ? "classes" : "numeric"
+    return targetTypes.includes(preferred) ? preferred : targetTypes[0]
+  }
+
+  const chooseTarget = (parsed: CsvTable, column: number) => {
+    setTarget(column)
+    setTargetType(defaultTargetType(parsed, column))
+    // Every other numeric column is a feature, as far as the page can take them
+    setFeatures(
+      parsed.headers
+        .map((_, i) => i)
+        .filter((i) => i !== column && isNumericColumn(parsed, i))
+        .slice(0, maxFeatures),
+    )
+  }
+
+  const readFile = async (file: File) => {
+    setFileName(file.name)
+    const result = parseCsv(await file.text())
+    if (!result.ok) {
+      setTable(null)
+      setErrors(result.errors)
+      return
+    }
+    setErrors([])
+    setTable(result.table)
+    // By convention the label sits in the last column
+    chooseTarget(result.table, result.table.headers.length - 1)
+  }
+
+  const toggleFeature = (column: number) =>
+    setFeatures((prev) =>
+      prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column].sort((a, b) => a - b),
+    )
+
+  const load = () => {
+    if (!table) return
+    if (features.length < minFeatures || features.length > maxFeatures) {
+      setErrors([
+        minFeatures === maxFeatures
+          ? `Choose exactly ${minFeatures} feature column${minFeatures === 1 ? "" : "s"}`
+          : `Choose between ${minFeatures} and ${maxFeatures} feature columns`,
+      ])
+      return
+    }
+    const result = buildCsvDataset(table, { features, target, targetType, normalization, range, maxClasses })
+    if (!result.ok) {
+      setErrors(result.errors)
+      return
+    }
+    setErrors([])
+    onLoad(fileName.replace(/\.[^.]+$/, ""), result.dataset)
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragging(false)
+          const file = e.dataTransfer.files[0]
+          if (file && !disabled) readFile(file)
+        }}
+        className={`flex flex-col items-center gap-1 p-3 rounded border border-dashed text-center cursor-pointer ${
+          dragging ? "border-blue-500 bg-blue-500/10" : "border-gray-500/60 hover:bg-gray-500/10"
+        } ${disabled ? "opacity-50 pointer-events-none" : ""}`}
+      >
+        <FileSpreadsheet className="h-5 w-5 opacity-70" />
+        <span>{fileName || "Drop a CSV file here or click to choose one"}</span>
+        <span className="text-xs opacity-60">Read in your browser; nothing is uploaded</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv"
+          className="hidden"
+          disabled={disabled}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) readFile(file)
+            e.target.value = ""
+          }}
+        />
+      </label>
+
+      {table && (
+        <>
+          <div className="text-xs opacity-70">
+            {table.rows.length} rows × {table.headers.length} columns
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Target column</label>
+            <select
+              value={target}
+              onChange={(e) => chooseTarget(table, Number(e.target.value))}
+              disabled={disabled}
+              className="w-full p-1.5 rounded border border-gray-500/60 bg-transparent"
+            >
+              {table.headers.map((name, i) => (
+                <option key={name} value={i} className="text-black">
+                  {name}
+                </option>
+              ))}
+            </select>
+            {targetTypes.length > 1 && (
+              <div className="flex gap-3 mt-1.5">
+                {targetTypes.map((type) => (
+                  <label key={type} className="flex items-center gap-1 text-xs">
+                    <input
+                      type="radio"
+                      checked={targetType === type}
+                      onChange={() => setTargetType(type)}
+                      disabled={disabled}
+                    />
+                    {TARGET_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium mb-1">
+              Feature columns ({features.length}
+              {Number.isFinite(maxFeatures) ? ` of at most ${maxFeatures}` : ""})
+            </label>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 max-h-32 overflow-y-auto">
+              {table.headers.map((name, i) =>
+                i === target ? null : (
+                  <label key={name} className="flex items-center gap-1 text-xs truncate" title={name}>
+                    <input
+                      type="checkbox"
+                      checked={features.includes(i)}
+                      onChange={() => toggleFeature(i)}
+                      disabled={disabled || (!features.includes(i) && features.length >= maxFeatures)}
+                    />
+                    {name}
+                    {!isNumericColumn(table, i) && <span className="opacity-50">(text)</span>}
+                  </label>
+                ),
+              )}
+            </div>
+          </div>
+
+          {normalizationOptions.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium mb-1">Normalization</label>
+              <select
+                value={normalization}
+                onChange={(e) => setNormalization(e.target.value as Normalization)}
+                disabled={disabled}
+                className="w-full p-1.5 rounded border border-gray-500/60 bg-transparent"
+              >
+                {normalizationOptions.map((name) => (
+                  <option key={name} value={name} className="text-black">
+                    {normalizations[name].label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs opacity-60">
+                {normalizations[normalization].description}
+                {normalization === "minmax" ? ` Interval: [${(range ?? [0, 1]).join(", ")}].` : ""}
+              </p>
+            </div>
+          )}
+
+          <button
+            onClick={load}
+            disabled={disabled}
+            className="w-full px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Use this data
+          </button>
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-500 space-y-0.5 max-h-40 overflow-y-auto">
+          {errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+"use client"
+
+export interface LineSeries {
+  label: string
+  color: string
+  values: (number | undefined)[]
+  dashed?: boolean
+}
+
+interface LineChartProps {
+  series: LineSeries[]
+  // X value of the first point in each series (epochs start at 1) and the spacing between points
+  xStart?: number
+  xStep?: number
+  formatX?: (value: number) => string
+  yMin?: number
+  yMax?: number
+  formatY?: (value: number) => string
+  height?: number
+  // Plot on a log₁₀ axis, for quantities that span orders of magnitude (non-positive values are skipped)
+  logScale?: boolean
+}
+
+const WIDTH = 400
+const PADDING = { top: 10, right: 10, bottom: 22, left: 44 }
+
+export function LineChart({
+  series,
+  xStart = 1,
+  xStep = 1,
+  formatX = (v) => String(v),
+  yMin,
+  yMax,
+  formatY = (v) => v.toFixed(2),
+  height = 180,
+  logScale = false,
+}: LineChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+
+  const project = (value: number | undefined) =>
+    value === undefined || !logScale ? value : value > 0 ? Math.log10(value) : undefined
+  const projected = series.map((s) => s.values.map(project))
+
+  const points = projected.flatMap((values) => values.filter((v): v is number => v !== undefined && Number.isFinite(v)))
+  const length = Math.max(0, ...series.map((s) => s.values.length))
+  // A log axis has no zero to anchor on, so it starts at the smallest value instead
+  const floor = logScale ? Math.min(...points) : Math.min(0, ...points)
+  const low = project(yMin) ?? (Number.isFinite(floor) ? floor : 0)
+  let high = project(yMax) ?? Math.max(...points, low + 1e-6)
+  if (high <= low) high = low + 1
+
+  const toX = (index: number) => PADDING.left + (length > 1 ? (index / (length - 1)) * plotWidth : plotWidth / 2)
+  const toY = (value: number) => PADDING.top + (1 - (value - low) / (high - low)) * plotHeight
+
+  // Break the line wherever a value is missing
+  const pathFor = (values: (number | undefined)[]) => {
+    let d = ""
+    let drawing = false
+    values.forEach((value, index) => {
+      if (value === undefined || !Number.isFinite(value)) {
+        drawing = false
+        return
+      }
+      d += `${drawing ? "L" : "M"} ${toX(index)} ${toY(value)} `
+      drawing = true
+    })
+    return d
+  }
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => low + t * (high - low))
+
+  return (
+    <div>
+      <svg className="w-full" viewBox={`0 0 ${WIDTH} ${height}`}>
+        {/* Grid and y-axis labels */}
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              y1={toY(tick)}
+              x2={WIDTH - PADDING.right}
+              y2={toY(tick)}
+              stroke="#374151"
+              strokeWidth={0.5}
+            />
+            <text x={PADDING.left - 4} y={toY(tick) + 3} textAnchor="end" className="text-[9px] fill-gray-400">
+              {formatY(logScale ? 10 ** tick : tick)}
+            </text>
+          </g>
+        ))}
+
+        {/* X-axis labels */}
+        {length > 0 && (
+          <>
+            <text x={toX(0)} y={height - 6} textAnchor="start" className="text-[9px] fill-gray-400">
+              {formatX(xStart)}
+            </text>
+            <text x={toX(length - 1)} y={height - 6} textAnchor="end" className="text-[9px] fill-gray-400">
+              {formatX(xStart + (length - 1) * xStep)}
+            </text>
+          </>
+        )}
+
+        {series.map((s, index) => (
+          <path
+            key={s.label}
+            d={pathFor(projected[index])}
+            stroke={s.color}
+            strokeWidth={2}
+            strokeDasharray={s.dashed ? "5 3" : undefined}
+            fill="none"
+          />
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-400">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span
+              className="inline-block w-4 border-t-2"
+              style={{ borderColor: s.color, borderStyle: s.dashed ? "dashed" : "solid" }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+// Activation functions and their derivatives with respect to the pre-activation input
+export interface ActivationFunction {
+  label: string
+  formula: string
+  range: string
+  // Vertical scale used by the activation plot
+  plot: "unit" | "symmetric" | "unbounded"
+  fn: (x: number) => number
+  derivative: (x: number) => number
+  // Normalizes across the whole layer instead of neuron by neuron (fn/derivative describe the 1-D case)
+  layerwise?: boolean
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x))
+const sigmoidDerivative = (x: number) => {
+  const s = sigmoid(x)
+  return s * (1 - s)
+}
+
+// Tanh approximation of GELU used by BERT and GPT
+const GELU_SCALE = Math.sqrt(2 / Math.PI)
+const GELU_CUBIC = 0.044715
+
+export const activationFunctions = {
+  sigmoid: {
+    label: "Sigmoid",
+    formula: "f(x) = 1/(1+e^(-x))",
+    range: "Range: (0,1)",
+    plot: "unit",
+    fn: sigmoid,
+    derivative: sigmoidDerivative,
+  },
+  relu: {
+    label: "ReLU",
+    formula: "f(x) = max(0,x)",
+    range: "Range: [0,∞)",
+    plot: "unbounded",
+    fn: (x: number) => Math.max(0, x),
+    derivative: (x: number) => (x > 0 ? 1 : 0),
+  },
+  tanh: {
+    label: "Tanh",
+    formula: "f(x) = tanh(x)",
+    range: "Range: (-1,1)",
+    plot: "symmetric",
+    fn: (x: number) => Math.tanh(x),
+    derivative: (x: number) => 1 - Math.tanh(x) ** 2,
+  },
+  leaky_relu: {
+    label: "Leaky ReLU",
+    formula: "f(x) = max(0.01x,x)",
+    range: "Range: (-∞,∞)",
+    plot: "unbounded",
+    fn: (x: number) => (x > 0 ? x : 0.01 * x),
+    derivative: (x: number) => (x > 0 ? 1 : 0.01),
+  },
+  linear: {
+    label: "Linear",
+    formula: "f(x) = x",
+    range: "Range: (-∞,∞)",
+    plot: "unbounded",
+    fn: (x: number) => x,
+    derivative: () => 1,
+  },
+  gelu: {
+    label: "GELU",
+    formula: "f(x) = x·Φ(x)",
+    range: "Range: [-0.17,∞)",
+    plot: "unbounded",
+    fn: (x: number) => 0.5 * x * (1 + Math.tanh(GELU_SCALE * (x + GELU_CUBIC * x ** 3))),
+    derivative: (x: number) => {
+      const t = Math.tanh(GELU_SCALE * (x + GELU_CUBIC * x ** 3))
+      return 0.5 * (1 + t) + 0.5 * x * (1 - t ** 2) * GELU_SCALE * (1 + 3 * GELU_CUBIC * x ** 2)
+    },
+  },
+  elu: {
+    label: "ELU",
+    formula: "f(x) = x if x>0, else e^x−1",
+    range: "Range: (-1,∞)",
+    plot: "unbounded",
+    fn: (x: number) => (x > 0 ? x : Math.exp(x) - 1),
+    derivative: (x: number) => (x > 0 ? 1 : Math.exp(x)),
+  },
+  softplus: {
+    label: "Softplus",
+    formula: "f(x) = ln(1+e^x)",
+    range: "Range: (0,∞)",
+    plot: "unbounded",
+    // Past x = 20 the result equals x to double precision and e^x starts to overflow
+    fn: (x: number) => (x > 20 ? x : Math.log1p(Math.exp(x))),
+    derivative: sigmoid,
+  },
+  swish: {
+    label: "Swish",
+    formula: "f(x) = x·σ(x)",
+    range: "Range: [-0.28,∞)",
+    plot: "unbounded",
+    fn: (x: number) => x * sigmoid(x),
+    derivative: (x: number) => sigmoid(x) + x * sigmoidDerivative(x),
+  },
+  step: {
+    label: "Step",
+    formula: "f(x) = 1 if x ≥ 0, else 0",
+    range: "Range: {0,1}",
+    plot: "unit",
+    fn: (x: number) => (x >= 0 ? 1 : 0),
+    // Flat everywhere except the jump, so backpropagation gets no signal through it
+    derivative: () => 0,
+  },
+  softmax: {
+    label: "Softmax",
+    formula: "f(x)ᵢ = e^xᵢ / Σⱼ e^xⱼ",
+    range: "Range: (0,1), sums to 1",
+    plot: "unit",
+    // Against a single other logit of 0, softmax reduces to the sigmoid
+    fn: sigmoid,
+    derivative: sigmoidDerivative,
+    layerwise: true,
+  },
+} satisfies Record<string, ActivationFunction>
+
+export type ActivationName = keyof typeof activationFunctions
+
+export const isLayerwise = (name: ActivationName) =>
+  (activationFunctions[name] as ActivationFunction).layerwise === true
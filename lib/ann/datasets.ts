@@ -0,0 +1,248 @@
+import type { CsvDataset } from "../csv"
+import { gaussian, shuffle, type RandomSource } from "./random"
+import type { Sample } from "./types"
+
+export type DatasetTask = "classification" | "regression"
+
+export interface DatasetOptions {
+  inputSize: number
+  outputSize: number
+  count: number
+  noise: number
+  random: RandomSource
+}
+
+export interface DatasetDefinition {
+  label: string
+  description: string
+  task: DatasetTask
+  // Truth-table datasets always produce every input combination and ignore `count`
+  fixedSize?: boolean
+  // Rows loaded from a file: `count` and `noise` don't apply, but unlike a truth table they can be held out
+  uploaded?: boolean
+  generate: (options: DatasetOptions) => Sample[]
+}
+
+// Fit the generator's native features to the network's input layer:
+// surplus inputs get small uniform noise, missing ones are dropped
+const fitInput = (features: number[], inputSize: number, random: RandomSource) =>
+  Array.from({ length: inputSize }, (_, i) => (i < features.length ? features[i] : (random() - 0.5) * 0.2))
+
+// One output neuron holds a 0/1 label, several output neurons hold a one-hot vector
+const encodeLabel = (label: number, outputSize: number) =>
+  outputSize === 1 ? [label > 0 ? 1 : 0] : Array.from({ length: outputSize }, (_, k) => (k === label ? 1 : 0))
+
+// Number of classes a multi-class generator should produce for the output layer
+const classCount = (outputSize: number) => Math.max(2, outputSize)
+
+// Truth table over every input combination, with optional jitter on the inputs
+const logicGate =
+  (gate: (bits: number[]) => number) =>
+  ({ inputSize, outputSize, noise, random }: DatasetOptions): Sample[] =>
+    Array.from({ length: 2 ** inputSize }, (_, row) => {
+      const bits = Array.from({ length: inputSize }, (_, i) => (row >> (inputSize - 1 - i)) & 1)
+      return {
+        input: bits.map((bit) => bit + gaussian(random) * noise),
+        target: encodeLabel(gate(bits), outputSize),
+      }
+    })
+
+const twoMoons = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const label = i % 2
+    const angle = random() * Math.PI
+    const x = label === 0 ? Math.cos(angle) : 1 - Math.cos(angle)
+    const y = label === 0 ? Math.sin(angle) : 0.5 - Math.sin(angle)
+    // Centre the pair of moons on the origin
+    const features = [x - 0.5 + gaussian(random) * noise, y - 0.25 + gaussian(random) * noise]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+
+const concentricCircles = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const label = i % 2
+    const radius = label === 0 ? random() * 0.4 : 0.6 + random() * 0.4
+    const angle = random() * Math.PI * 2
+    const features = [
+      radius * Math.cos(angle) + gaussian(random) * noise,
+      radius * Math.sin(angle) + gaussian(random) * noise,
+    ]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+
+const spirals = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] => {
+  const classes = classCount(outputSize)
+  return Array.from({ length: count }, (_, i) => {
+    const label = i % classes
+    const t = random()
+    const angle = t * 1.75 * Math.PI * 2 + (label * Math.PI * 2) / classes
+    const features = [
+      t * Math.cos(angle) + gaussian(random) * noise,
+      t * Math.sin(angle) + gaussian(random) * noise,
+    ]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+}
+
+const gaussianBlobs = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] => {
+  const classes = classCount(outputSize)
+  return Array.from({ length: count }, (_, i) => {
+    const label = i % classes
+    const angle = (label * Math.PI * 2) / classes
+    const spread = 0.15 + noise
+    const features = [
+      0.6 * Math.cos(angle) + gaussian(random) * spread,
+      0.6 * Math.sin(angle) + gaussian(random) * spread,
+    ]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+}
+
+// Two classes either side of a tilted line, kept at least LINEAR_MARGIN away from it
+const LINEAR_MARGIN = 0.15
+const LINEAR_ANGLE = Math.PI / 6
+
+const linearlySeparable = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const label = i % 2
+    const along = random() * 2 - 1
+    const across = (LINEAR_MARGIN + random() * 0.6) * (label === 0 ? -1 : 1)
+    const features = [
+      along * Math.cos(LINEAR_ANGLE) - across * Math.sin(LINEAR_ANGLE) + gaussian(random) * noise,
+      along * Math.sin(LINEAR_ANGLE) + across * Math.cos(LINEAR_ANGLE) + gaussian(random) * noise,
+    ]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+
+// Two wide Gaussian clouds close enough that their tails always mix
+const overlappingClusters = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const label = i % 2
+    const spread = 0.3 + noise
+    const features = [(label === 0 ? -0.25 : 0.25) + gaussian(random) * spread, gaussian(random) * spread]
+    return { input: fitInput(features, inputSize, random), target: encodeLabel(label, outputSize) }
+  })
+
+// Output k regresses sin((k + 1)πx), rescaled to [0, 1] so sigmoid outputs can reach it
+const sineRegression = ({ inputSize, outputSize, count, noise, random }: DatasetOptions): Sample[] =>
+  Array.from({ length: count }, (_, i) => {
+    const x = -1 + (2 * i) / Math.max(1, count - 1)
+    const target = Array.from({ length: outputSize }, (_, k) => 0.5 + 0.5 * Math.sin((k + 1) * Math.PI * x))
+    return {
+      input: fitInput([x], inputSize, random),
+      target: target.map((t) => t + gaussian(random) * noise * 0.5),
+    }
+  })
+
+export type DatasetName =
+  | "xor"
+  | "and"
+  | "or"
+  | "linear"
+  | "overlap"
+  | "moons"
+  | "circles"
+  | "spirals"
+  | "blobs"
+  | "sine"
+
+export const datasets: Record<DatasetName, DatasetDefinition> = {
+  xor: {
+    label: "XOR",
+    description: "Parity of the binary inputs. Not linearly separable.",
+    task: "classification",
+    fixedSize: true,
+    generate: logicGate((bits) => bits.reduce((acc, bit) => acc ^ bit, 0)),
+  },
+  and: {
+    label: "AND",
+    description: "1 only when every input is on. Linearly separable.",
+    task: "classification",
+    fixedSize: true,
+    generate: logicGate((bits) => (bits.every((bit) => bit === 1) ? 1 : 0)),
+  },
+  or: {
+    label: "OR",
+    description: "1 when any input is on. Linearly separable.",
+    task: "classification",
+    fixedSize: true,
+    generate: logicGate((bits) => (bits.some((bit) => bit === 1) ? 1 : 0)),
+  },
+  linear: {
+    label: "Linearly Separable",
+    description: "Two classes either side of a tilted line with a clear margin. Separable while noise stays small.",
+    task: "classification",
+    generate: linearlySeparable,
+  },
+  overlap: {
+    label: "Overlapping Clusters",
+    description: "Two Gaussian clouds whose tails mix. No straight line separates them.",
+    task: "classification",
+    generate: overlappingClusters,
+  },
+  moons: {
+    label: "Two Moons",
+    description: "Two interleaving half circles in the first two inputs.",
+    task: "classification",
+    generate: twoMoons,
+  },
+  circles: {
+    label: "Concentric Circles",
+    description: "An inner disc surrounded by a ring in the first two inputs.",
+    task: "classification",
+    generate: concentricCircles,
+  },
+  spirals: {
+    label: "Spirals",
+    description: "One interleaved spiral arm per class in the first two inputs.",
+    task: "classification",
+    generate: spirals,
+  },
+  blobs: {
+    label: "Gaussian Blobs",
+    description: "One Gaussian cluster per class in the first two inputs.",
+    task: "classification",
+    generate: gaussianBlobs,
+  },
+  sine: {
+    label: "Sine Regression",
+    description: "Fit sin((k + 1)πx) on output k from the first input.",
+    task: "regression",
+    generate: sineRegression,
+  },
+}
+
+// An uploaded CSV, already normalized and encoded. The page sizes the input and output layers to match it.
+export const csvDataset = (label: string, data: CsvDataset): DatasetDefinition => ({
+  label,
+  description:
+    `${data.inputs.length} rows: ${data.featureNames.join(", ")} → ${data.targetName}` +
+    (data.targetType === "classes" ? ` (${data.classes.length} classes, one-hot)` : " (scaled onto [0, 1])"),
+  task: data.targetType === "classes" ? "classification" : "regression",
+  uploaded: true,
+  generate: () => data.inputs.map((input, i) => ({ input, target: data.targets[i] })),
+})
+
+export interface DatasetSplit {
+  train: Sample[]
+  validation: Sample[]
+  test: Sample[]
+}
+
+// Shuffle once, then carve off the validation and test fractions
+export function splitDataset(
+  samples: Sample[],
+  validationRatio: number,
+  testRatio: number,
+  random: RandomSource,
+): DatasetSplit {
+  const shuffled = shuffle(samples, random)
+
+  const validationCount = Math.round(shuffled.length * validationRatio)
+  const testCount = Math.round(shuffled.length * testRatio)
+  return {
+    validation: shuffled.slice(0, validationCount),
+    test: shuffled.slice(validationCount, validationCount + testCount),
+    train: shuffled.slice(validationCount + testCount),
+  }
+}
@@ -0,0 +1,714 @@
+import { activationFunctions, isLayerwise, type ActivationName } from "./activations"
+import type { DatasetTask } from "./datasets"
+import type { InitializerDefinition } from "./initializers"
+import { lossFunctions, type LossName } from "./losses"
+import { createOptimizerArrays, optimizerStep, type OptimizerArrays, type OptimizerConfig } from "./optimizers"
+import { shuffle, type RandomSource } from "./random"
+import type { NetworkConnection, NetworkNode, OptimizerState, Sample } from "./types"
+
+// How the graph turns inputs into outputs and how outputs are scored
+export interface EngineConfig {
+  // Activation of each non-input layer: entry i applies to layer i + 1
+  activations: ActivationName[]
+  loss: LossName
+  task: DatasetTask
+  // Dropout rate and batch-norm switch per non-input layer, aligned like `activations` (output entry ignored)
+  dropout?: number[]
+  batchNorm?: boolean[]
+  // Weight decay strengths; biases and batch-norm parameters are not decayed
+  l1?: number
+  l2?: number
+}
+
+// Scale, shift and inference statistics of a batch-normalized layer, one entry per neuron
+export interface DenseBatchNorm {
+  gamma: Float64Array
+  beta: Float64Array
+  runningMean: Float64Array
+  runningVariance: Float64Array
+  gammaState: OptimizerArrays
+  betaState: OptimizerArrays
+}
+
+// A non-input layer as a weight matrix: weights[j * inputs + i] joins neuron i of the previous layer to neuron j
+export interface DenseLayer {
+  inputs: number
+  size: number
+  weights: Float64Array
+  biases: Float64Array
+  // 1 where training leaves the weight alone: frozen connections, and pairs with no connection at all
+  fixed: Uint8Array
+  // Index of each weight in the connection list, or −1 where the graph has no such connection
+  connections: Int32Array
+  weightState: OptimizerArrays
+  biasState: OptimizerArrays
+  // Mean |gradient| of each weight and bias over the last training epoch
+  weightGradients: Float64Array
+  biasGradients: Float64Array
+  // Created the first time the layer trains with batch norm
+  batchNorm?: DenseBatchNorm
+}
+
+// The network as typed arrays: fast to compute with, and cheap to copy to and from a Web Worker.
+// layers[k] holds the weights into layer k + 1.
+export interface DenseNetwork {
+  // Neuron ids by layer and position, input layer first
+  ids: string[][]
+  layers: DenseLayer[]
+}
+
+export interface ForwardResult {
+  preActivations: Map<string, number>
+  activations: Map<string, number>
+  output: number[]
+  // Neurons zeroed by dropout on this pass
+  dropped: Set<string>
+}
+
+export interface EvaluationResult {
+  loss: number
+  accuracy: number
+}
+
+export interface DenseEpochResult extends EvaluationResult {
+  // Mean loss of each mini-batch, measured before its update
+  batchLosses: number[]
+  // L2 norm of each non-input layer's weight gradient, averaged over the epoch's steps (entry i is layer i + 1)
+  gradientNorms: number[]
+}
+
+// One layer's values for a whole batch, indexed [sample * size + neuron]
+interface LayerPass {
+  z: Float64Array
+  // What the activation function sees: z, or its batch-normalized and rescaled version
+  y: Float64Array
+  a: Float64Array
+  zHat?: Float64Array
+  mean?: Float64Array
+  variance?: Float64Array
+  // Whether normalization used this batch's statistics rather than the running ones
+  batchStatistics?: boolean
+  // Inverted-dropout multipliers (0 or 1 / (1 - rate))
+  mask?: Float64Array
+}
+
+// Per non-input layer, like `DenseNetwork.layers`
+export interface DenseGradients {
+  weights: Float64Array[]
+  biases: Float64Array[]
+  gammas: (Float64Array | undefined)[]
+  betas: (Float64Array | undefined)[]
+}
+
+// Regression outputs within this distance of the target count as correct
+const REGRESSION_TOLERANCE = 0.1
+const BATCH_NORM_EPSILON = 1e-5
+// Weight of the old running statistics in each update
+const BATCH_NORM_MOMENTUM = 0.9
+
+const createDenseBatchNorm = (size: number): DenseBatchNorm => ({
+  gamma: new Float64Array(size).fill(1),
+  beta: new Float64Array(size),
+  runningMean: new Float64Array(size),
+  runningVariance: new Float64Array(size).fill(1),
+  gammaState: createOptimizerArrays(size),
+  betaState: createOptimizerArrays(size),
+})
+
+const readState = (arrays: OptimizerArrays, k: number, state: OptimizerState | undefined) => {
+  if (!state) return
+  arrays.velocity[k] = state.velocity
+  arrays.cache[k] = state.cache
+  arrays.m[k] = state.m
+  arrays.v[k] = state.v
+  arrays.step[k] = state.step
+}
+
+// A parameter that has never been updated has no optimizer state in the graph
+const writeState = (arrays: OptimizerArrays, k: number): OptimizerState | undefined =>
+  arrays.step[k] > 0
+    ? { velocity: arrays.velocity[k], cache: arrays.cache[k], m: arrays.m[k], v: arrays.v[k], step: arrays.step[k] }
+    : undefined
+
+const createDenseLayer = (inputs: number, size: number): DenseLayer => ({
+  inputs,
+  size,
+  weights: new Float64Array(size * inputs),
+  biases: new Float64Array(size),
+  fixed: new Uint8Array(size * inputs).fill(1),
+  connections: new Int32Array(size * inputs).fill(-1),
+  weightState: createOptimizerArrays(size * inputs),
+  biasState: createOptimizerArrays(size),
+  weightGradients: new Float64Array(size * inputs),
+  biasGradients: new Float64Array(size),
+})
+
+// A fully connected network with fresh parameters. Biases are drawn layer by layer before any weight, and
+// connections are numbered in the order their weights are drawn (input by input within each layer pair).
+export function createDenseNetwork(
+  architecture: number[],
+  initializer: InitializerDefinition,
+  random: RandomSource,
+): DenseNetwork {
+  const ids = architecture.map((size, layer) => Array.from({ length: size }, (_, i) => `${layer}-${i}`))
+  const layers = architecture.slice(1).map((size, k) => createDenseLayer(architecture[k], size))
+  layers.forEach((layer) => layer.biases.forEach((_, j) => (layer.biases[j] = initializer.bias(random))))
+
+  let index = 0
+  layers.forEach((layer) => {
+    for (let i = 0; i < layer.inputs; i++) {
+      for (let j = 0; j < layer.size; j++) {
+        const k = j * layer.inputs + i
+        layer.weights[k] = initializer.weight(layer.inputs, layer.size, random)
+        layer.fixed[k] = 0
+        layer.connections[k] = index++
+      }
+    }
+  })
+
+  return { ids, layers }
+}
+
+// Pack the node/connection graph into per-layer matrices
+export function toDenseNetwork(nodes: NetworkNode[], connections: NetworkConnection[]): DenseNetwork {
+  const grouped: NetworkNode[][] = []
+  nodes.forEach((node) => {
+    if (!grouped[node.layer]) grouped[node.layer] = []
+    grouped[node.layer].push(node)
+  })
+  grouped.forEach((layer) => layer.sort((a, b) => a.position - b.position))
+  const ids = grouped.map((layer) => layer.map((node) => node.id))
+  const place = new Map<string, { layer: number; index: number }>()
+  ids.forEach((layer, l) => layer.forEach((id, index) => place.set(id, { layer: l, index })))
+
+  const layers = ids.slice(1).map((layerIds, k) => createDenseLayer(ids[k].length, layerIds.length))
+
+  connections.forEach((conn, index) => {
+    const from = place.get(conn.from)
+    const to = place.get(conn.to)
+    if (!from || !to || to.layer !== from.layer + 1) return
+    const layer = layers[to.layer - 1]
+    const k = to.index * layer.inputs + from.index
+    layer.weights[k] = conn.weight
+    layer.fixed[k] = conn.frozen ? 1 : 0
+    layer.connections[k] = index
+    layer.weightGradients[k] = conn.gradient ?? 0
+    readState(layer.weightState, k, conn.optimizerState)
+  })
+
+  grouped.slice(1).forEach((layerNodes, k) => {
+    const layer = layers[k]
+    layerNodes.forEach((node, j) => {
+      layer.biases[j] = node.bias
+      layer.biasGradients[j] = node.gradient ?? 0
+      readState(layer.biasState, j, node.optimizerState)
+      if (!node.batchNorm) return
+      const batchNorm = (layer.batchNorm ??= createDenseBatchNorm(layer.size))
+      batchNorm.gamma[j] = node.batchNorm.gamma
+      batchNorm.beta[j] = node.batchNorm.beta
+      batchNorm.runningMean[j] = node.batchNorm.runningMean
+      batchNorm.runningVariance[j] = node.batchNorm.runningVariance
+      readState(batchNorm.gammaState, j, node.batchNorm.gammaState)
+      readState(batchNorm.betaState, j, node.batchNorm.betaState)
+    })
+  })
+
+  return { ids, layers }
+}
+
+// Every neuron in graph form, with its learned parameters and last-epoch gradient (activations left at 0)
+export function denseNodes(network: DenseNetwork): NetworkNode[] {
+  return network.ids.flatMap((ids, layer) =>
+    ids.map((id, j): NetworkNode => {
+      if (layer === 0) return { id, layer, position: j, activation: 0, bias: 0 }
+      const { biases, biasState, biasGradients, batchNorm } = network.layers[layer - 1]
+      return {
+        id,
+        layer,
+        position: j,
+        activation: 0,
+        bias: biases[j],
+        optimizerState: writeState(biasState, j),
+        gradient: biasGradients[j],
+        batchNorm: batchNorm && {
+          gamma: batchNorm.gamma[j],
+          beta: batchNorm.beta[j],
+          runningMean: batchNorm.runningMean[j],
+          runningVariance: batchNorm.runningVariance[j],
+          gammaState: writeState(batchNorm.gammaState, j),
+          betaState: writeState(batchNorm.betaState, j),
+        },
+      }
+    }),
+  )
+}
+
+// The weight at `slot` of layers[layer] in graph form. Built on demand: a wide network has far more
+// connections than it is worth keeping as objects.
+export function denseConnection(network: DenseNetwork, layer: number, slot: number): NetworkConnection {
+  const { inputs, weights, fixed, weightState, weightGradients } = network.layers[layer]
+  return {
+    from: network.ids[layer][slot % inputs],
+    to: network.ids[layer + 1][Math.floor(slot / inputs)],
+    weight: weights[slot],
+    active: false,
+    optimizerState: writeState(weightState, slot),
+    gradient: weightGradients[slot],
+    frozen: fixed[slot] === 1 || undefined,
+  }
+}
+
+// Every connection in graph form, at its index in `DenseLayer.connections`
+export function denseConnections(network: DenseNetwork): NetworkConnection[] {
+  const connections: NetworkConnection[] = []
+  network.layers.forEach((layer, k) =>
+    layer.connections.forEach((index, slot) => {
+      if (index >= 0) connections[index] = denseConnection(network, k, slot)
+    }),
+  )
+  return connections
+}
+
+// Where connection `index` sits in the weight matrices
+export function findConnection(network: DenseNetwork, index: number): { layer: number; slot: number } | null {
+  for (let layer = 0; layer < network.layers.length; layer++) {
+    const slot = network.layers[layer].connections.indexOf(index)
+    if (slot >= 0) return { layer, slot }
+  }
+  return null
+}
+
+// A copy of the network with some of layers[layer]'s fields replaced; the other layers are shared
+export function updateLayer(
+  network: DenseNetwork,
+  layer: number,
+  update: (current: DenseLayer) => Partial<DenseLayer>,
+): DenseNetwork {
+  return {
+    ...network,
+    layers: network.layers.map((current, k) => (k === layer ? { ...current, ...update(current) } : current)),
+  }
+}
+
+// A copy of the network whose optimizer starts from scratch, as if no parameter had been updated yet
+export function clearOptimizerState(network: DenseNetwork): DenseNetwork {
+  return {
+    ...network,
+    layers: network.layers.map((layer) => ({
+      ...layer,
+      weightState: createOptimizerArrays(layer.weights.length),
+      biasState: createOptimizerArrays(layer.size),
+      batchNorm: layer.batchNorm && {
+        ...layer.batchNorm,
+        gammaState: createOptimizerArrays(layer.size),
+        betaState: createOptimizerArrays(layer.size),
+      },
+    })),
+  }
+}
+
+export const softmax = (values: number[]) => {
+  const max = Math.max(...values)
+  const exps = values.map((v) => Math.exp(v - max))
+  const total = exps.reduce((sum, v) => sum + v, 0)
+  return exps.map((v) => v / total)
+}
+
+const row = (values: Float64Array, s: number, size: number) => Array.from(values.subarray(s * size, (s + 1) * size))
+
+export const layerActivation = (config: EngineConfig, layer: number) =>
+  config.activations[layer - 1] ?? config.activations[config.activations.length - 1]
+
+// Softmax only normalizes when the layer has more than one neuron; a lone neuron falls back to sigmoid
+const usesSoftmax = (network: DenseNetwork, config: EngineConfig, layer: number) =>
+  isLayerwise(layerActivation(config, layer)) && network.ids[layer].length > 1
+
+// Cross-entropy after its matching output activation (binary after sigmoid, categorical after softmax) has
+// dLoss/dZ = y − t. Using that directly stays finite where the separate factors divide by a saturated y.
+function fusedOutputDeltas(network: DenseNetwork, config: EngineConfig) {
+  const layer = network.layers.length
+  const activation = layerActivation(config, layer)
+  if (config.loss === "categorical_cross_entropy" && usesSoftmax(network, config, layer)) {
+    // y·Σt − t, which is y − t for a one-hot target
+    return (output: number[], target: number[]) => {
+      const total = target.reduce((sum, t) => sum + t, 0)
+      return output.map((y, i) => y * total - target[i])
+    }
+  }
+  // A lone softmax neuron is a sigmoid; a wider softmax layer goes through its Jacobian like any other loss
+  const sigmoidOutput = activation === "sigmoid" || (activation === "softmax" && !usesSoftmax(network, config, layer))
+  if (config.loss === "binary_cross_entropy" && sigmoidOutput) {
+    return (output: number[], target: number[]) => output.map((y, i) => (y - target[i]) / output.length)
+  }
+  return null
+}
+
+const isHidden = (network: DenseNetwork, layer: number) => layer > 0 && layer < network.ids.length - 1
+
+const usesBatchNorm = (network: DenseNetwork, config: EngineConfig, layer: number) =>
+  isHidden(network, layer) && config.batchNorm?.[layer - 1] === true
+
+const dropoutRate = (network: DenseNetwork, config: EngineConfig, layer: number) =>
+  isHidden(network, layer) ? (config.dropout?.[layer - 1] ?? 0) : 0
+
+// Forward a batch layer by layer so batch normalization sees the whole layer at once.
+// Passing `random` puts the pass in training mode: batch statistics and dropout masks.
+function runForward(network: DenseNetwork, inputs: number[][], config: EngineConfig, random?: RandomSource) {
+  const count = inputs.length
+  const inputSize = network.ids[0].length
+  const inputValues = new Float64Array(count * inputSize)
+  inputs.forEach((input, s) => {
+    for (let i = 0; i < inputSize; i++) inputValues[s * inputSize + i] = input[i] ?? 0
+  })
+  const passes: LayerPass[] = [{ z: inputValues, y: inputValues, a: inputValues }]
+
+  network.layers.forEach((layer, k) => {
+    const l = k + 1
+    const { inputs: m, size: n, weights, biases } = layer
+    const previous = passes[k].a
+    const z = new Float64Array(count * n)
+    for (let s = 0; s < count; s++) {
+      for (let j = 0; j < n; j++) {
+        let sum = biases[j]
+        for (let i = 0; i < m; i++) sum += previous[s * m + i] * weights[j * m + i]
+        z[s * n + j] = sum
+      }
+    }
+    const pass: LayerPass = { z, y: z, a: new Float64Array(count * n) }
+
+    if (usesBatchNorm(network, config, l)) {
+      const batchNorm = layer.batchNorm
+      // A lone sample has no spread, so it is normalized with the running statistics instead
+      const batchStatistics = random !== undefined && count > 1
+      const mean = new Float64Array(n)
+      const variance = new Float64Array(n)
+      const zHat = new Float64Array(count * n)
+      const y = new Float64Array(count * n)
+      for (let j = 0; j < n; j++) {
+        if (batchStatistics) {
+          for (let s = 0; s < count; s++) mean[j] += z[s * n + j]
+          mean[j] /= count
+          for (let s = 0; s < count; s++) variance[j] += (z[s * n + j] - mean[j]) ** 2
+          variance[j] /= count
+        } else {
+          mean[j] = batchNorm?.runningMean[j] ?? 0
+          variance[j] = batchNorm?.runningVariance[j] ?? 1
+        }
+        const std = Math.sqrt(variance[j] + BATCH_NORM_EPSILON)
+        const gamma = batchNorm?.gamma[j] ?? 1
+        const beta = batchNorm?.beta[j] ?? 0
+        for (let s = 0; s < count; s++) {
+          zHat[s * n + j] = (z[s * n + j] - mean[j]) / std
+          y[s * n + j] = gamma * zHat[s * n + j] + beta
+        }
+      }
+      Object.assign(pass, { y, zHat, mean, variance, batchStatistics })
+    }
+
+    if (usesSoftmax(network, config, l)) {
+      for (let s = 0; s < count; s++) pass.a.set(softmax(row(pass.y, s, n)), s * n)
+    } else {
+      const { fn } = activationFunctions[layerActivation(config, l)]
+      pass.y.forEach((v, index) => (pass.a[index] = fn(v)))
+    }
+
+    // Inverted dropout: survivors are scaled up during training so inference needs no correction
+    const rate = dropoutRate(network, config, l)
+    if (random && rate > 0) {
+      const mask = new Float64Array(count * n)
+      for (let index = 0; index < mask.length; index++) {
+        mask[index] = random() < rate ? 0 : 1 / (1 - rate)
+        pass.a[index] *= mask[index]
+      }
+      pass.mask = mask
+    }
+
+    passes.push(pass)
+  })
+
+  return passes
+}
+
+const argMax = (values: number[]) => values.reduce((best, v, i) => (v > values[best] ? i : best), 0)
+
+// Classification: threshold a single output at 0.5, otherwise compare the arg max.
+// Regression: every output must be within REGRESSION_TOLERANCE of its target.
+function isCorrect(output: number[], target: number[], task: DatasetTask) {
+  if (task === "regression") {
+    return output.every((y, i) => Math.abs(y - target[i]) <= REGRESSION_TOLERANCE)
+  }
+  if (output.length === 1) {
+    return output[0] >= 0.5 === target[0] >= 0.5
+  }
+  return argMax(output) === argMax(target)
+}
+
+// Gradients of the batch-mean data loss; weight decay is added by the caller
+function runBackward(
+  network: DenseNetwork,
+  passes: LayerPass[],
+  targets: number[][],
+  config: EngineConfig,
+): DenseGradients {
+  const count = targets.length
+  const outputLayer = network.layers.length
+  const outputSize = network.layers[outputLayer - 1].size
+  const { gradient } = lossFunctions[config.loss]
+  const fused = fusedOutputDeltas(network, config)
+  const result: DenseGradients = { weights: [], biases: [], gammas: [], betas: [] }
+
+  // dLoss/dActivation for each sample and neuron of the current layer (dLoss/dY straight away when fused)
+  let upstream = new Float64Array(count * outputSize)
+  targets.forEach((target, s) => {
+    const output = row(passes[outputLayer].a, s, outputSize)
+    upstream.set((fused ?? gradient)(output, target), s * outputSize)
+  })
+
+  // Walk layers from output to first hidden layer, propagating deltas backwards
+  for (let l = outputLayer; l >= 1; l--) {
+    const layer = network.layers[l - 1]
+    const { inputs: m, size: n, weights } = layer
+    const pass = passes[l]
+    const { mask } = pass
+    if (mask) upstream.forEach((g, index) => (upstream[index] = g * mask[index]))
+
+    // dLoss/dY, through the softmax Jacobian for layerwise activations
+    let deltas = new Float64Array(count * n)
+    if (fused && l === outputLayer) {
+      deltas = upstream
+    } else if (usesSoftmax(network, config, l)) {
+      for (let s = 0; s < count; s++) {
+        const outputs = softmax(row(pass.y, s, n))
+        const weighted = outputs.reduce((sum, y, i) => sum + y * upstream[s * n + i], 0)
+        outputs.forEach((y, j) => (deltas[s * n + j] = y * (upstream[s * n + j] - weighted)))
+      }
+    } else {
+      const { derivative } = activationFunctions[layerActivation(config, l)]
+      upstream.forEach((g, index) => (deltas[index] = g * derivative(pass.y[index])))
+    }
+
+    // dLoss/dZ, back through the normalization
+    const { zHat, variance } = pass
+    if (zHat && variance) {
+      const dY = deltas
+      deltas = new Float64Array(dY)
+      const gammas = new Float64Array(n)
+      const betas = new Float64Array(n)
+      for (let j = 0; j < n; j++) {
+        const gamma = layer.batchNorm?.gamma[j] ?? 1
+        const std = Math.sqrt(variance[j] + BATCH_NORM_EPSILON)
+        for (let s = 0; s < count; s++) {
+          gammas[j] += dY[s * n + j] * zHat[s * n + j]
+          betas[j] += dY[s * n + j]
+        }
+        gammas[j] /= count
+        betas[j] /= count
+
+        if (pass.batchStatistics) {
+          // The batch mean and variance depend on every sample, which adds the two correction terms
+          let sum = 0
+          let projected = 0
+          for (let s = 0; s < count; s++) {
+            sum += dY[s * n + j] * gamma
+            projected += dY[s * n + j] * gamma * zHat[s * n + j]
+          }
+          for (let s = 0; s < count; s++) {
+            const g = dY[s * n + j] * gamma
+            deltas[s * n + j] = (count * g - sum - zHat[s * n + j] * projected) / (count * std)
+          }
+        } else {
+          for (let s = 0; s < count; s++) deltas[s * n + j] = (dY[s * n + j] * gamma) / std
+        }
+      }
+      result.gammas[l - 1] = gammas
+      result.betas[l - 1] = betas
+    }
+
+    const previous = passes[l - 1].a
+    const nextUpstream = new Float64Array(count * m)
+    const weightGradients = new Float64Array(n * m)
+    const biasGradients = new Float64Array(n)
+    for (let j = 0; j < n; j++) {
+      for (let s = 0; s < count; s++) biasGradients[j] += deltas[s * n + j]
+      biasGradients[j] /= count
+      for (let i = 0; i < m; i++) {
+        const k = j * m + i
+        if (layer.connections[k] < 0) continue
+        let sum = 0
+        for (let s = 0; s < count; s++) {
+          sum += deltas[s * n + j] * previous[s * m + i]
+          nextUpstream[s * m + i] += weights[k] * deltas[s * n + j]
+        }
+        weightGradients[k] = sum / count
+      }
+    }
+    result.weights[l - 1] = weightGradients
+    result.biases[l - 1] = biasGradients
+    upstream = nextUpstream
+  }
+
+  return result
+}
+
+// Outputs for many inputs in inference mode
+export function predictDense(network: DenseNetwork, inputs: number[][], config: EngineConfig): number[][] {
+  const passes = runForward(network, inputs, config)
+  const size = network.ids[network.ids.length - 1].length
+  return inputs.map((_, s) => row(passes[passes.length - 1].a, s, size))
+}
+
+export function evaluateDense(network: DenseNetwork, samples: Sample[], config: EngineConfig): EvaluationResult {
+  if (samples.length === 0) return { loss: 0, accuracy: 0 }
+
+  const outputs = predictDense(
+    network,
+    samples.map((sample) => sample.input),
+    config,
+  )
+  const { compute } = lossFunctions[config.loss]
+  let loss = 0
+  let correct = 0
+  samples.forEach((sample, s) => {
+    loss += compute(outputs[s], sample.target)
+    if (isCorrect(outputs[s], sample.target, config.task)) correct++
+  })
+
+  return { loss: loss / samples.length, accuracy: correct / samples.length }
+}
+
+export interface BatchOptions {
+  // Samples per optimizer step; anything >= the dataset size means full-batch gradient descent
+  batchSize: number
+  shuffle: boolean
+  random: RandomSource
+}
+
+// One epoch over the dataset, updating `network` in place: average gradients over each mini-batch,
+// then take one optimizer step
+export function trainDenseEpoch(
+  network: DenseNetwork,
+  samples: Sample[],
+  config: EngineConfig,
+  optimizer: OptimizerConfig,
+  batching: BatchOptions,
+): DenseEpochResult {
+  const { compute } = lossFunctions[config.loss]
+  const l1 = config.l1 ?? 0
+  const l2 = config.l2 ?? 0
+
+  const indices = samples.map((_, i) => i)
+  const order = batching.shuffle ? shuffle(indices, batching.random) : indices
+
+  const batchSize = Math.max(1, Math.min(batching.batchSize, samples.length))
+  const batchCount = Math.ceil(order.length / batchSize)
+  const batchLosses: number[] = []
+
+  // Mean gradient magnitude per parameter over the epoch, for the gradient-flow view
+  network.layers.forEach((layer) => {
+    layer.weightGradients.fill(0)
+    layer.biasGradients.fill(0)
+  })
+  const gradientNorms = network.layers.map(() => 0)
+
+  for (let start = 0; start < order.length; start += batchSize) {
+    const batch = order.slice(start, start + batchSize).map((i) => samples[i])
+    const passes = runForward(
+      network,
+      batch.map((sample) => sample.input),
+      config,
+      batching.random,
+    )
+    const gradients = runBackward(
+      network,
+      passes,
+      batch.map((sample) => sample.target),
+      config,
+    )
+    const outputSize = network.layers[network.layers.length - 1].size
+    const outputs = passes[passes.length - 1].a
+    batchLosses.push(
+      batch.reduce((sum, sample, s) => sum + compute(row(outputs, s, outputSize), sample.target), 0) / batch.length,
+    )
+
+    network.layers.forEach((layer, k) => {
+      const weightGradients = gradients.weights[k]
+      const biasGradients = gradients.biases[k]
+      let squared = 0
+      weightGradients.forEach((g, index) => {
+        squared += g ** 2
+        layer.weightGradients[index] += Math.abs(g) / batchCount
+      })
+      gradientNorms[k] += Math.sqrt(squared) / batchCount
+      biasGradients.forEach((g, j) => (layer.biasGradients[j] += Math.abs(g) / batchCount))
+
+      // L2 pulls weights towards zero in proportion to their size, L1 by a constant amount
+      const decayed = weightGradients.map((g, k) => g + (l2 * layer.weights[k] + l1 * Math.sign(layer.weights[k])))
+      optimizerStep(layer.weights, decayed, layer.weightState, optimizer, layer.fixed)
+      optimizerStep(layer.biases, biasGradients, layer.biasState, optimizer)
+
+      // Learn the batch-norm scale and shift, and track statistics for inference
+      const { mean, variance, batchStatistics } = passes[k + 1]
+      const gammas = gradients.gammas[k]
+      const betas = gradients.betas[k]
+      if (!mean || !variance || !gammas || !betas) return
+      const batchNorm = (layer.batchNorm ??= createDenseBatchNorm(layer.size))
+      optimizerStep(batchNorm.gamma, gammas, batchNorm.gammaState, optimizer)
+      optimizerStep(batchNorm.beta, betas, batchNorm.betaState, optimizer)
+      if (batchStatistics) {
+        for (let j = 0; j < layer.size; j++) {
+          const { runningMean, runningVariance } = batchNorm
+          runningMean[j] = BATCH_NORM_MOMENTUM * runningMean[j] + (1 - BATCH_NORM_MOMENTUM) * mean[j]
+          runningVariance[j] = BATCH_NORM_MOMENTUM * runningVariance[j] + (1 - BATCH_NORM_MOMENTUM) * variance[j]
+        }
+      }
+    })
+  }
+
+  return { batchLosses, gradientNorms, ...evaluateDense(network, samples, config) }
+}
+
+// Inference-mode pass for one input. With `random` it is a training-mode pass instead: the dropout mask
+// reported in `dropped` is the one applied, so silenced neurons feed nothing on and survivors are rescaled.
+export function forwardPass(
+  network: DenseNetwork,
+  input: number[],
+  config: EngineConfig,
+  random?: RandomSource,
+): ForwardResult {
+  const passes = runForward(network, [input], config, random)
+  const preActivations = new Map<string, number>()
+  const activations = new Map<string, number>()
+  const dropped = new Set<string>()
+
+  network.ids.forEach((ids, layer) => {
+    const { y, a, mask } = passes[layer]
+    ids.forEach((id, j) => {
+      if (mask?.[j] === 0) dropped.add(id)
+      preActivations.set(id, y[j])
+      activations.set(id, a[j])
+    })
+  })
+
+  return { preActivations, activations, output: Array.from(passes[passes.length - 1].a), dropped }
+}
+
+// Backpropagate the mean loss of a batch (training mode when `random` is given), without weight decay
+export function computeGradients(
+  network: DenseNetwork,
+  samples: Sample[],
+  config: EngineConfig,
+  random?: RandomSource,
+): DenseGradients {
+  const passes = runForward(
+    network,
+    samples.map((sample) => sample.input),
+    config,
+    random,
+  )
+  return runBackward(
+    network,
+    passes,
+    samples.map((sample) => sample.target),
+    config,
+  )
+}
@@ -0,0 +1,111 @@
+// Classification metrics for a set of network outputs: confusion matrix, per-class scores and,
+// for two-class problems, ROC and precision-recall curves
+export interface ClassScores {
+  precision: number
+  recall: number
+  f1: number
+  // Samples that truly belong to the class
+  support: number
+}
+
+export interface CurvePoint {
+  x: number
+  y: number
+}
+
+export interface BinaryCurves {
+  // False positive rate → true positive rate, one point per distinct score threshold
+  roc: CurvePoint[]
+  rocAuc: number
+  // Recall → precision
+  pr: CurvePoint[]
+  // Area under the step-wise PR curve (average precision)
+  prAuc: number
+}
+
+export interface ClassificationReport {
+  classCount: number
+  // matrix[actual][predicted]
+  matrix: number[][]
+  classes: ClassScores[]
+  accuracy: number
+  // Unweighted mean over the classes
+  macroF1: number
+  // Only for two classes that both occur in the samples
+  curves: BinaryCurves | null
+}
+
+const argMax = (values: number[]) => values.reduce((best, v, i) => (v > values[best] ? i : best), 0)
+
+// Same decision rule as the engine's accuracy: threshold a single output at 0.5, otherwise take the arg max
+const decide = (values: number[]) => (values.length === 1 ? (values[0] >= 0.5 ? 1 : 0) : argMax(values))
+
+// Confidence that a sample is class 1: the output itself, or the margin of the second output over the first
+const positiveScore = (output: number[]) => (output.length === 1 ? output[0] : output[1] - output[0])
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0)
+
+function binaryCurves(scores: number[], positives: boolean[]): BinaryCurves | null {
+  const totalPositive = positives.filter(Boolean).length
+  const totalNegative = positives.length - totalPositive
+  if (totalPositive === 0 || totalNegative === 0) return null
+
+  // Lower the threshold one distinct score at a time, so tied samples enter the positive side together
+  const order = scores.map((score, i) => ({ score, positive: positives[i] })).sort((a, b) => b.score - a.score)
+  const roc: CurvePoint[] = [{ x: 0, y: 0 }]
+  const pr: CurvePoint[] = []
+  let truePositive = 0
+  let falsePositive = 0
+  let rocAuc = 0
+  let prAuc = 0
+  for (let i = 0; i < order.length; ) {
+    const threshold = order[i].score
+    for (; i < order.length && order[i].score === threshold; i++) {
+      if (order[i].positive) truePositive++
+      else falsePositive++
+    }
+    const previous = roc[roc.length - 1]
+    const point = { x: falsePositive / totalNegative, y: truePositive / totalPositive }
+    rocAuc += ((point.x - previous.x) * (point.y + previous.y)) / 2
+    roc.push(point)
+
+    const precision = truePositive / (truePositive + falsePositive)
+    prAuc += (point.y - previous.y) * precision
+    pr.push({ x: point.y, y: precision })
+  }
+  // Start the PR curve at zero recall with the precision of the most confident threshold
+  pr.unshift({ x: 0, y: pr[0].y })
+
+  return { roc, rocAuc, pr, prAuc }
+}
+
+export function evaluateClassifier(outputs: number[][], targets: number[][]): ClassificationReport {
+  const classCount = Math.max(2, targets[0]?.length ?? 0, outputs[0]?.length ?? 0)
+  const matrix = Array.from({ length: classCount }, () => Array<number>(classCount).fill(0))
+  outputs.forEach((output, s) => matrix[decide(targets[s])][decide(output)]++)
+
+  const classes = matrix.map((row, k) => {
+    const truePositive = row[k]
+    const predicted = matrix.reduce((sum, other) => sum + other[k], 0)
+    const support = row.reduce((sum, count) => sum + count, 0)
+    const precision = ratio(truePositive, predicted)
+    const recall = ratio(truePositive, support)
+    return { precision, recall, f1: ratio(2 * precision * recall, precision + recall), support }
+  })
+  const correct = matrix.reduce((sum, row, k) => sum + row[k], 0)
+
+  return {
+    classCount,
+    matrix,
+    classes,
+    accuracy: ratio(correct, outputs.length),
+    macroF1: classes.reduce((sum, scores) => sum + scores.f1, 0) / classCount,
+    curves:
+      classCount === 2
+        ? binaryCurves(
+            outputs.map(positiveScore),
+            targets.map((target) => decide(target) === 1),
+          )
+        : null,
+  }
+}
@@ -0,0 +1,50 @@
+import { gaussian, type RandomSource } from "./random"
+
+export type InitializerName = "zeros" | "uniform" | "normal" | "xavier" | "he" | "lecun"
+
+export interface InitializerDefinition {
+  label: string
+  description: string
+  // Weight of one connection into a layer with `fanIn` inputs and `fanOut` outputs
+  weight: (fanIn: number, fanOut: number, random: RandomSource) => number
+  bias: (random: RandomSource) => number
+}
+
+export const initializers: Record<InitializerName, InitializerDefinition> = {
+  zeros: {
+    label: "Zeros",
+    description: "Every weight is 0, so all neurons in a layer stay identical: symmetry is never broken.",
+    weight: () => 0,
+    bias: () => 0,
+  },
+  uniform: {
+    label: "Uniform [-1, 1]",
+    description: "Weights and biases drawn uniformly from [-1, 1], ignoring layer size.",
+    weight: (_fanIn, _fanOut, random) => (random() - 0.5) * 2,
+    bias: (random) => (random() - 0.5) * 2,
+  },
+  normal: {
+    label: "Normal N(0, 1)",
+    description: "Standard normal weights. Large layers explode or saturate quickly.",
+    weight: (_fanIn, _fanOut, random) => gaussian(random),
+    bias: () => 0,
+  },
+  xavier: {
+    label: "Xavier / Glorot",
+    description: "Uniform in ±√(6 / (fan in + fan out)). Keeps variance steady for sigmoid and tanh.",
+    weight: (fanIn, fanOut, random) => (random() - 0.5) * 2 * Math.sqrt(6 / (fanIn + fanOut)),
+    bias: () => 0,
+  },
+  he: {
+    label: "He / Kaiming",
+    description: "Normal with std √(2 / fan in). Compensates for ReLU zeroing half its inputs.",
+    weight: (fanIn, _fanOut, random) => gaussian(random) * Math.sqrt(2 / fanIn),
+    bias: () => 0,
+  },
+  lecun: {
+    label: "LeCun",
+    description: "Normal with std √(1 / fan in). Suited to SELU and other self-normalizing units.",
+    weight: (fanIn, _fanOut, random) => gaussian(random) * Math.sqrt(1 / fanIn),
+    bias: () => 0,
+  },
+}
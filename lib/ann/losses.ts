@@ -0,0 +1,65 @@
+export type LossName = "mse" | "mae" | "huber" | "binary_cross_entropy" | "categorical_cross_entropy"
+
+export interface LossFunction {
+  label: string
+  formula: string
+  // Loss of one sample, averaged over the output vector (cross-entropy sums over classes)
+  compute: (output: number[], target: number[]) => number
+  // dLoss/dOutput for each output neuron
+  gradient: (output: number[], target: number[]) => number[]
+}
+
+const HUBER_DELTA = 1
+const EPSILON = 1e-7
+
+const clampProbability = (y: number) => Math.min(1 - EPSILON, Math.max(EPSILON, y))
+
+export const lossFunctions: Record<LossName, LossFunction> = {
+  mse: {
+    label: "Mean Squared Error",
+    formula: "mean((y − t)²)",
+    compute: (output, target) => output.reduce((sum, y, i) => sum + (y - target[i]) ** 2, 0) / output.length,
+    gradient: (output, target) => output.map((y, i) => (2 * (y - target[i])) / output.length),
+  },
+  mae: {
+    label: "Mean Absolute Error",
+    formula: "mean(|y − t|)",
+    compute: (output, target) => output.reduce((sum, y, i) => sum + Math.abs(y - target[i]), 0) / output.length,
+    gradient: (output, target) => output.map((y, i) => Math.sign(y - target[i]) / output.length),
+  },
+  huber: {
+    label: "Huber",
+    formula: "½(y − t)² if |y − t| ≤ δ, else δ(|y − t| − ½δ)",
+    compute: (output, target) =>
+      output.reduce((sum, y, i) => {
+        const error = Math.abs(y - target[i])
+        return sum + (error <= HUBER_DELTA ? 0.5 * error ** 2 : HUBER_DELTA * (error - 0.5 * HUBER_DELTA))
+      }, 0) / output.length,
+    gradient: (output, target) =>
+      output.map((y, i) => {
+        const error = y - target[i]
+        return (Math.abs(error) <= HUBER_DELTA ? error : HUBER_DELTA * Math.sign(error)) / output.length
+      }),
+  },
+  binary_cross_entropy: {
+    label: "Binary Cross-Entropy",
+    formula: "−mean(t·log y + (1 − t)·log(1 − y))",
+    compute: (output, target) =>
+      -output.reduce((sum, y, i) => {
+        const p = clampProbability(y)
+        return sum + target[i] * Math.log(p) + (1 - target[i]) * Math.log(1 - p)
+      }, 0) / output.length,
+    // Taken at the clamped probability so a confidently wrong output still gets a (large) error signal
+    gradient: (output, target) =>
+      output.map((y, i) => {
+        const p = clampProbability(y)
+        return (p - target[i]) / (p * (1 - p)) / output.length
+      }),
+  },
+  categorical_cross_entropy: {
+    label: "Categorical Cross-Entropy",
+    formula: "−Σ t·log y",
+    compute: (output, target) => -output.reduce((sum, y, i) => sum + target[i] * Math.log(clampProbability(y)), 0),
+    gradient: (output, target) => output.map((y, i) => -target[i] / clampProbability(y)),
+  },
+}
@@ -0,0 +1,244 @@
+import { activationFunctions, type ActivationName } from "./activations"
+import { denseConnections, denseNodes, toDenseNetwork, type DenseNetwork } from "./engine"
+import { lossFunctions, type LossName } from "./losses"
+import { optimizers, type OptimizerConfig } from "./optimizers"
+import type { BatchNormParams, NetworkNode, OptimizerState, TrainingMetrics } from "./types"
+
+// Saved ANN models: a versioned JSON document with everything needed to resume training
+export const MODEL_FORMAT = "neuralsim-ann"
+export const MODEL_VERSION = 1
+
+export interface SavedNode {
+  id: string
+  bias: number
+  optimizerState?: OptimizerState
+  batchNorm?: BatchNormParams
+}
+
+export interface SavedConnection {
+  from: string
+  to: string
+  weight: number
+  optimizerState?: OptimizerState
+  frozen?: boolean
+}
+
+export interface ModelFile {
+  format: typeof MODEL_FORMAT
+  version: typeof MODEL_VERSION
+  // Neurons per layer, input first
+  architecture: number[]
+  // Activation of each non-input layer
+  activations: ActivationName[]
+  loss: LossName
+  optimizer: OptimizerConfig
+  // Per non-input layer, like `activations`
+  dropout: number[]
+  batchNorm: boolean[]
+  l1: number
+  l2: number
+  nodes: SavedNode[]
+  connections: SavedConnection[]
+  metrics: TrainingMetrics[]
+}
+
+export type ModelParseResult = { ok: true; model: ModelFile } | { ok: false; errors: string[] }
+
+export function createModelFile(
+  settings: Omit<ModelFile, "format" | "version" | "nodes" | "connections">,
+  network: DenseNetwork,
+): ModelFile {
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_VERSION,
+    ...settings,
+    // Only learned parameters are kept; activations, gradients and dropout masks are recomputed
+    nodes: denseNodes(network).map(({ id, bias, optimizerState, batchNorm }) => ({
+      id,
+      bias,
+      optimizerState,
+      batchNorm,
+    })),
+    connections: denseConnections(network).map(({ from, to, weight, optimizerState, frozen }) => ({
+      from,
+      to,
+      weight,
+      optimizerState,
+      frozen,
+    })),
+  }
+}
+
+// Rebuild the network of a validated model, connections numbered in the order the file lists them
+export function restoreNetwork(model: ModelFile): DenseNetwork {
+  const saved = new Map(model.nodes.map((node) => [node.id, node]))
+  const nodes = model.architecture.flatMap((size, layer) =>
+    Array.from({ length: size }, (_, position): NetworkNode => {
+      const node = saved.get(`${layer}-${position}`)!
+      return { ...node, layer, position, activation: 0 }
+    }),
+  )
+  const connections = model.connections.map((conn) => ({ ...conn, active: false }))
+  return toDenseNetwork(nodes, connections)
+}
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value)
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+const describe = (value: unknown) => {
+  if (value === undefined) return "nothing"
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") return "an object"
+  return JSON.stringify(value)
+}
+
+const OPTIMIZER_STATE_FIELDS = ["velocity", "cache", "m", "v", "step"]
+const BATCH_NORM_FIELDS = ["gamma", "beta", "runningMean", "runningVariance"]
+
+// Parse and validate a saved model. Every problem is reported with its path (e.g. `nodes[3].bias`)
+// rather than stopping at the first one.
+export function parseModelFile(text: string): ModelParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, errors: [`Not valid JSON: ${(error as Error).message}`] }
+  }
+
+  if (!isObject(data)) return { ok: false, errors: [`Expected a JSON object, got ${describe(data)}`] }
+  if (data.format !== MODEL_FORMAT) {
+    return { ok: false, errors: [`format: expected "${MODEL_FORMAT}", got ${describe(data.format)}`] }
+  }
+  if (data.version !== MODEL_VERSION) {
+    return { ok: false, errors: [`version: expected ${MODEL_VERSION}, got ${describe(data.version)}`] }
+  }
+
+  // Everything else is checked against the architecture, so it has to be sound first
+  const { architecture } = data
+  if (
+    !Array.isArray(architecture) ||
+    architecture.length < 2 ||
+    !architecture.every((size) => Number.isInteger(size) && size > 0)
+  ) {
+    return { ok: false, errors: ["architecture: expected at least two positive whole layer sizes"] }
+  }
+  const sizes = architecture as number[]
+  const layerCount = sizes.length - 1
+
+  const errors: string[] = []
+  const fail = (path: string, message: string) => errors.push(`${path}: ${message}`)
+  const expectNumber = (value: unknown, path: string) => {
+    if (!isNumber(value)) fail(path, `expected a finite number, got ${describe(value)}`)
+  }
+  const expectObject = (value: unknown, path: string, fields: string[]): value is Json => {
+    if (!isObject(value)) {
+      fail(path, `expected an object, got ${describe(value)}`)
+      return false
+    }
+    fields.forEach((field) => expectNumber(value[field], `${path}.${field}`))
+    return true
+  }
+  const expectArray = (value: unknown, path: string, length?: number): value is unknown[] => {
+    if (!Array.isArray(value)) {
+      fail(path, `expected an array, got ${describe(value)}`)
+      return false
+    }
+    if (length !== undefined && value.length !== length) {
+      fail(path, `expected ${length} entries for a ${sizes.join("-")} network, got ${value.length}`)
+      return false
+    }
+    return true
+  }
+  const expectOneOf = (value: unknown, path: string, options: string[]) => {
+    if (typeof value !== "string" || !options.includes(value)) {
+      fail(path, `expected one of ${options.join(", ")}, got ${describe(value)}`)
+    }
+  }
+
+  if (expectArray(data.activations, "activations", layerCount)) {
+    data.activations.forEach((name, i) => expectOneOf(name, `activations[${i}]`, Object.keys(activationFunctions)))
+  }
+  expectOneOf(data.loss, "loss", Object.keys(lossFunctions))
+  if (expectObject(data.optimizer, "optimizer", ["learningRate", "momentum", "decay", "beta1", "beta2", "epsilon"])) {
+    expectOneOf(data.optimizer.name, "optimizer.name", Object.keys(optimizers))
+  }
+  if (expectArray(data.dropout, "dropout", layerCount)) {
+    data.dropout.forEach((rate, i) => {
+      if (!isNumber(rate) || rate < 0 || rate >= 1) {
+        fail(`dropout[${i}]`, `expected a rate in [0, 1), got ${describe(rate)}`)
+      }
+    })
+  }
+  if (expectArray(data.batchNorm, "batchNorm", layerCount)) {
+    data.batchNorm.forEach((enabled, i) => {
+      if (typeof enabled !== "boolean") fail(`batchNorm[${i}]`, `expected true or false, got ${describe(enabled)}`)
+    })
+  }
+  expectNumber(data.l1, "l1")
+  expectNumber(data.l2, "l2")
+
+  // Nodes: exactly one per layer position, with ids `${layer}-${position}`
+  const nodeIds = new Set(sizes.flatMap((size, layer) => Array.from({ length: size }, (_, i) => `${layer}-${i}`)))
+  if (expectArray(data.nodes, "nodes", nodeIds.size)) {
+    const seen = new Set<unknown>()
+    data.nodes.forEach((node, i) => {
+      const path = `nodes[${i}]`
+      if (!expectObject(node, path, ["bias"])) return
+      if (typeof node.id !== "string" || !nodeIds.has(node.id)) {
+        fail(`${path}.id`, `${describe(node.id)} is not a neuron of a ${sizes.join("-")} network`)
+      } else if (seen.has(node.id)) {
+        fail(`${path}.id`, `neuron ${node.id} appears more than once`)
+      }
+      seen.add(node.id)
+      if (node.optimizerState !== undefined) {
+        expectObject(node.optimizerState, `${path}.optimizerState`, OPTIMIZER_STATE_FIELDS)
+      }
+      if (node.batchNorm !== undefined) expectObject(node.batchNorm, `${path}.batchNorm`, BATCH_NORM_FIELDS)
+    })
+  }
+
+  // Connections: every pair of neurons in adjacent layers, exactly once
+  const connectionKeys = new Set(
+    sizes.slice(1).flatMap((size, layer) =>
+      Array.from({ length: sizes[layer] * size }, (_, k) => {
+        const from = `${layer}-${Math.floor(k / size)}`
+        return `${from} → ${layer + 1}-${k % size}`
+      }),
+    ),
+  )
+  if (expectArray(data.connections, "connections", connectionKeys.size)) {
+    const seen = new Set<string>()
+    data.connections.forEach((conn, i) => {
+      const path = `connections[${i}]`
+      if (!expectObject(conn, path, ["weight"])) return
+      const key = `${conn.from} → ${conn.to}`
+      if (!connectionKeys.has(key)) {
+        fail(path, `${describe(conn.from)} → ${describe(conn.to)} does not join neurons in adjacent layers`)
+      } else if (seen.has(key)) {
+        fail(path, `${key} appears more than once`)
+      }
+      seen.add(key)
+      if (conn.optimizerState !== undefined) {
+        expectObject(conn.optimizerState, `${path}.optimizerState`, OPTIMIZER_STATE_FIELDS)
+      }
+      if (conn.frozen !== undefined && typeof conn.frozen !== "boolean") {
+        fail(`${path}.frozen`, `expected true or false, got ${describe(conn.frozen)}`)
+      }
+    })
+  }
+
+  if (expectArray(data.metrics, "metrics")) {
+    data.metrics.forEach((entry, i) => {
+      const path = `metrics[${i}]`
+      if (!expectObject(entry, path, ["epoch", "loss", "accuracy", "learningRate"])) return
+      ;(["validationLoss", "validationAccuracy"] as const).forEach((field) => {
+        if (entry[field] !== undefined) expectNumber(entry[field], `${path}.${field}`)
+      })
+    })
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, model: data as unknown as ModelFile }
+}
@@ -0,0 +1,143 @@
+export type OptimizerName = "sgd" | "momentum" | "nesterov" | "rmsprop" | "adagrad" | "adam"
+
+export interface OptimizerConfig {
+  name: OptimizerName
+  learningRate: number
+  momentum: number
+  decay: number
+  beta1: number
+  beta2: number
+  epsilon: number
+}
+
+export type OptimizerHyperparameter = "momentum" | "decay" | "beta1" | "beta2" | "epsilon"
+
+export interface HyperparameterControl {
+  key: OptimizerHyperparameter
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+export interface OptimizerDefinition {
+  label: string
+  description: string
+  hyperparameters: HyperparameterControl[]
+}
+
+const momentumControl: HyperparameterControl = { key: "momentum", label: "Momentum (μ)", min: 0, max: 0.99, step: 0.01 }
+const epsilonControl: HyperparameterControl = { key: "epsilon", label: "Epsilon (ε)", min: 1e-8, max: 1e-4, step: 1e-8 }
+
+export const optimizers: Record<OptimizerName, OptimizerDefinition> = {
+  sgd: {
+    label: "SGD",
+    description: "w ← w − η·g",
+    hyperparameters: [],
+  },
+  momentum: {
+    label: "SGD + Momentum",
+    description: "Accumulates a velocity so steps keep moving through flat regions.",
+    hyperparameters: [momentumControl],
+  },
+  nesterov: {
+    label: "Nesterov",
+    description: "Momentum with a look-ahead correction on the velocity.",
+    hyperparameters: [momentumControl],
+  },
+  rmsprop: {
+    label: "RMSProp",
+    description: "Divides by a running average of squared gradients.",
+    hyperparameters: [{ key: "decay", label: "Decay (ρ)", min: 0.5, max: 0.999, step: 0.001 }, epsilonControl],
+  },
+  adagrad: {
+    label: "Adagrad",
+    description: "Divides by the sum of all past squared gradients.",
+    hyperparameters: [epsilonControl],
+  },
+  adam: {
+    label: "Adam",
+    description: "Momentum plus RMSProp scaling, with bias correction.",
+    hyperparameters: [
+      { key: "beta1", label: "Beta 1 (β₁)", min: 0.5, max: 0.999, step: 0.001 },
+      { key: "beta2", label: "Beta 2 (β₂)", min: 0.9, max: 0.9999, step: 0.0001 },
+      epsilonControl,
+    ],
+  },
+}
+
+export const defaultOptimizerConfig: OptimizerConfig = {
+  name: "sgd",
+  learningRate: 0.1,
+  momentum: 0.9,
+  decay: 0.9,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+}
+
+// Optimizer memory for a block of parameters: entry k of each array belongs to parameter k
+export interface OptimizerArrays {
+  velocity: Float64Array
+  cache: Float64Array
+  m: Float64Array
+  v: Float64Array
+  step: Float64Array
+}
+
+export const createOptimizerArrays = (size: number): OptimizerArrays => ({
+  velocity: new Float64Array(size),
+  cache: new Float64Array(size),
+  m: new Float64Array(size),
+  v: new Float64Array(size),
+  step: new Float64Array(size),
+})
+
+// Apply one update to every parameter of a block in place, skipping those flagged in `fixed`
+export function optimizerStep(
+  values: Float64Array,
+  gradients: Float64Array,
+  state: OptimizerArrays,
+  config: OptimizerConfig,
+  fixed?: Uint8Array,
+) {
+  const { learningRate, momentum, decay, beta1, beta2, epsilon } = config
+  const { velocity, cache, m, v, step } = state
+
+  for (let k = 0; k < values.length; k++) {
+    if (fixed?.[k]) continue
+    const gradient = gradients[k]
+    step[k]++
+
+    switch (config.name) {
+      case "momentum":
+        velocity[k] = momentum * velocity[k] - learningRate * gradient
+        values[k] += velocity[k]
+        break
+      case "nesterov": {
+        const previousVelocity = velocity[k]
+        velocity[k] = momentum * velocity[k] - learningRate * gradient
+        values[k] = values[k] - momentum * previousVelocity + (1 + momentum) * velocity[k]
+        break
+      }
+      case "rmsprop":
+        cache[k] = decay * cache[k] + (1 - decay) * gradient ** 2
+        values[k] -= (learningRate * gradient) / (Math.sqrt(cache[k]) + epsilon)
+        break
+      case "adagrad":
+        cache[k] += gradient ** 2
+        values[k] -= (learningRate * gradient) / (Math.sqrt(cache[k]) + epsilon)
+        break
+      case "adam": {
+        m[k] = beta1 * m[k] + (1 - beta1) * gradient
+        v[k] = beta2 * v[k] + (1 - beta2) * gradient ** 2
+        const mHat = m[k] / (1 - beta1 ** step[k])
+        const vHat = v[k] / (1 - beta2 ** step[k])
+        values[k] -= (learningRate * mHat) / (Math.sqrt(vHat) + epsilon)
+        break
+      }
+      default:
+        values[k] -= learningRate * gradient
+    }
+  }
+}
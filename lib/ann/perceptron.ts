@@ -0,0 +1,125 @@
+import { updateLayer, type DenseNetwork } from "./engine"
+import type { Sample } from "./types"
+
+// Rosenblatt's perceptron: one layer of step units, corrected with w ← w + η(t − y)x after each mistake.
+// Every output neuron is its own perceptron with the boundary w·x + b = 0.
+export interface PerceptronLine {
+  weights: number[]
+  bias: number
+}
+
+export interface PerceptronProgress {
+  // Index of the next training sample to present
+  cursor: number
+  completedEpochs: number
+  // Mistakes so far in the epoch under way
+  mistakes: number
+  updates: number
+  // The most recent correction, with the boundaries as they were before it
+  lastUpdate: { sample: number; before: PerceptronLine[] } | null
+  // Set once an epoch passes without mistakes, or the epoch budget runs out
+  outcome: { converged: boolean; epoch: number; mistakes: number } | null
+}
+
+export interface PerceptronStepResult {
+  network: DenseNetwork
+  progress: PerceptronProgress
+  // Mistakes of the epoch that this step finished, if it finished one
+  finishedEpoch: { epoch: number; mistakes: number } | null
+}
+
+export const initialPerceptronProgress = (): PerceptronProgress => ({
+  cursor: 0,
+  completedEpochs: 0,
+  mistakes: 0,
+  updates: 0,
+  lastUpdate: null,
+  outcome: null,
+})
+
+// Boundary of each output neuron: its row of the input weight matrix, and its bias
+export function perceptronLines(network: DenseNetwork): PerceptronLine[] {
+  const { inputs, size, weights, biases } = network.layers[0]
+  return Array.from({ length: size }, (_, j) => ({
+    weights: Array.from(weights.subarray(j * inputs, (j + 1) * inputs)),
+    bias: biases[j],
+  }))
+}
+
+const fire = (line: PerceptronLine, input: number[]) =>
+  line.weights.reduce((sum, w, i) => sum + w * (input[i] ?? 0), line.bias) >= 0 ? 1 : 0
+
+// Targets are read as bits, so soft or regression targets are thresholded at 0.5
+const targetBits = (target: number[]) => target.map((t) => (t >= 0.5 ? 1 : 0))
+
+const isMistake = (lines: PerceptronLine[], sample: Sample) => {
+  const bits = targetBits(sample.target)
+  return lines.some((line, j) => fire(line, sample.input) !== bits[j])
+}
+
+// Fraction of samples where every output neuron fires correctly
+export function perceptronAccuracy(network: DenseNetwork, samples: Sample[]) {
+  if (samples.length === 0) return 0
+  const lines = perceptronLines(network)
+  return samples.filter((sample) => !isMistake(lines, sample)).length / samples.length
+}
+
+// Present samples in order until one is misclassified and corrected, or the epoch ends
+export function perceptronStep(
+  network: DenseNetwork,
+  samples: Sample[],
+  progress: PerceptronProgress,
+  learningRate: number,
+  maxEpochs: number,
+): PerceptronStepResult {
+  let lines = perceptronLines(network)
+  let newNetwork = network
+  let { cursor, mistakes, updates, lastUpdate } = progress
+  let corrected = false
+
+  while (cursor < samples.length) {
+    const index = cursor++
+    const sample = samples[index]
+    if (!isMistake(lines, sample)) continue
+
+    // Only output neurons that fired wrongly move; (t − y) is +1 or −1 for them and 0 for the rest
+    const bits = targetBits(sample.target)
+    const errors = lines.map((line, j) => bits[j] - fire(line, sample.input))
+    newNetwork = updateLayer(network, 0, ({ inputs, weights, biases, fixed }) => ({
+      // Frozen weights, and pairs with no connection, stay where they are
+      weights: weights.map((w, k) =>
+        fixed[k] ? w : w + learningRate * errors[Math.floor(k / inputs)] * (sample.input[k % inputs] ?? 0),
+      ),
+      biases: biases.map((b, j) => b + learningRate * errors[j]),
+    }))
+
+    lastUpdate = { sample: index, before: lines }
+    lines = perceptronLines(newNetwork)
+    mistakes++
+    updates++
+    corrected = true
+    break
+  }
+
+  let finishedEpoch: PerceptronStepResult["finishedEpoch"] = null
+  let completedEpochs = progress.completedEpochs
+  let outcome = progress.outcome
+  if (!corrected) {
+    // Reached the end of the data without another mistake: the epoch is over
+    completedEpochs++
+    finishedEpoch = { epoch: completedEpochs, mistakes }
+    if (mistakes === 0) {
+      outcome = { converged: true, epoch: completedEpochs, mistakes: 0 }
+    } else if (completedEpochs >= maxEpochs) {
+      outcome = { converged: false, epoch: completedEpochs, mistakes }
+    }
+    cursor = 0
+    mistakes = 0
+  }
+
+  return {
+    network: newNetwork,
+    progress: { cursor, completedEpochs, mistakes, updates, lastUpdate, outcome },
+    finishedEpoch,
+  }
+}
@@ -0,0 +1,139 @@
+// Learning-rate schedules: how the base rate η₀ changes from one epoch to the next
+export type ScheduleName = "constant" | "step" | "exponential" | "cosine" | "warmup_cosine" | "cyclical" | "plateau"
+
+export type ScheduleParameter =
+  | "stepSize"
+  | "dropFactor"
+  | "decayRate"
+  | "minFactor"
+  | "warmupEpochs"
+  | "cycleLength"
+  | "patience"
+
+export type ScheduleParams = Record<ScheduleParameter, number>
+
+export interface ScheduleControl {
+  key: ScheduleParameter
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+export interface ScheduleDefinition {
+  label: string
+  description: string
+  parameters: ScheduleControl[]
+}
+
+// Reduce-on-plateau reacts to the loss, so it carries state from epoch to epoch
+export interface PlateauState {
+  best: number
+  // Epochs since the loss last improved
+  wait: number
+  // Current multiplier on the base rate
+  scale: number
+}
+
+const dropFactorControl: ScheduleControl = { key: "dropFactor", label: "Drop Factor (γ)", min: 0.1, max: 0.9, step: 0.05 }
+const minFactorControl: ScheduleControl = { key: "minFactor", label: "Minimum (× η₀)", min: 0, max: 0.5, step: 0.01 }
+
+export const schedules: Record<ScheduleName, ScheduleDefinition> = {
+  constant: {
+    label: "Constant",
+    description: "η = η₀ for every epoch.",
+    parameters: [],
+  },
+  step: {
+    label: "Step Decay",
+    description: "Multiply the rate by γ every few epochs.",
+    parameters: [{ key: "stepSize", label: "Step Size (epochs)", min: 1, max: 100, step: 1 }, dropFactorControl],
+  },
+  exponential: {
+    label: "Exponential Decay",
+    description: "η = η₀·γᵗ: a small, steady shrink every epoch.",
+    parameters: [{ key: "decayRate", label: "Decay Rate (γ)", min: 0.9, max: 0.999, step: 0.001 }],
+  },
+  cosine: {
+    label: "Cosine Annealing",
+    description: "Follows half a cosine from η₀ down to the minimum over the max epochs.",
+    parameters: [minFactorControl],
+  },
+  warmup_cosine: {
+    label: "Warmup + Cosine",
+    description: "Ramps up linearly so early noisy steps stay small, then anneals with a cosine.",
+    parameters: [{ key: "warmupEpochs", label: "Warmup (epochs)", min: 1, max: 50, step: 1 }, minFactorControl],
+  },
+  cyclical: {
+    label: "Cyclical (triangular)",
+    description: "Bounces between the minimum and η₀, which can kick training out of sharp minima.",
+    parameters: [{ key: "cycleLength", label: "Cycle Length (epochs)", min: 2, max: 100, step: 1 }, minFactorControl],
+  },
+  plateau: {
+    label: "Reduce on Plateau",
+    description: "Multiply the rate by γ when the validation loss (or training loss) stops improving.",
+    parameters: [
+      { key: "patience", label: "Patience (epochs)", min: 1, max: 30, step: 1 },
+      dropFactorControl,
+      minFactorControl,
+    ],
+  },
+}
+
+export const defaultScheduleParams: ScheduleParams = {
+  stepSize: 20,
+  dropFactor: 0.5,
+  decayRate: 0.97,
+  minFactor: 0.01,
+  warmupEpochs: 10,
+  cycleLength: 20,
+  patience: 5,
+}
+
+export const initialPlateauState = (): PlateauState => ({ best: Infinity, wait: 0, scale: 1 })
+
+const cosineFraction = (progress: number) => (1 + Math.cos(Math.PI * Math.min(1, Math.max(0, progress)))) / 2
+
+// Rate for the zero-based `epoch` of a run lasting `totalEpochs`
+export function scheduledLearningRate(
+  baseRate: number,
+  epoch: number,
+  totalEpochs: number,
+  name: ScheduleName,
+  params: ScheduleParams,
+  plateau: PlateauState = initialPlateauState(),
+): number {
+  const minRate = baseRate * params.minFactor
+
+  switch (name) {
+    case "constant":
+      return baseRate
+    case "step":
+      return baseRate * params.dropFactor ** Math.floor(epoch / params.stepSize)
+    case "exponential":
+      return baseRate * params.decayRate ** epoch
+    case "cosine":
+      return minRate + (baseRate - minRate) * cosineFraction(epoch / Math.max(1, totalEpochs - 1))
+    case "warmup_cosine": {
+      if (epoch < params.warmupEpochs) return (baseRate * (epoch + 1)) / params.warmupEpochs
+      const progress = (epoch - params.warmupEpochs) / Math.max(1, totalEpochs - params.warmupEpochs - 1)
+      return minRate + (baseRate - minRate) * cosineFraction(progress)
+    }
+    case "cyclical": {
+      // Triangle wave starting at the minimum and peaking at η₀ halfway through each cycle
+      const position = (epoch % params.cycleLength) / params.cycleLength
+      return minRate + (baseRate - minRate) * (1 - Math.abs(2 * position - 1))
+    }
+    case "plateau":
+      return Math.max(minRate, baseRate * plateau.scale)
+  }
+}
+
+// Feed one epoch's monitored loss to reduce-on-plateau
+export function updatePlateau(state: PlateauState, loss: number, params: ScheduleParams): PlateauState {
+  if (loss < state.best) return { ...state, best: loss, wait: 0 }
+  if (state.wait + 1 >= params.patience) {
+    return { best: state.best, wait: 0, scale: Math.max(params.minFactor, state.scale * params.dropFactor) }
+  }
+  return { ...state, wait: state.wait + 1 }
+}
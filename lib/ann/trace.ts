@@ -0,0 +1,99 @@
+import { isLayerwise, type ActivationName } from "./activations"
+import { computeGradients, forwardPass, layerActivation, type DenseNetwork, type EngineConfig } from "./engine"
+import { lossFunctions, type LossName } from "./losses"
+import type { Sample } from "./types"
+
+// One operation of a forward/backward pass on a single sample, with the numbers it used
+export type TraceStep =
+  | {
+      kind: "sum"
+      node: string
+      terms: { from: string; connection: number; activation: number; weight: number }[]
+      bias: number
+      value: number
+    }
+  | {
+      kind: "activation"
+      node: string
+      activation: ActivationName
+      // Softmax couples the whole layer; batch norm rescales the sum before the activation
+      layerwise: boolean
+      batchNorm: boolean
+      input: number
+      output: number
+    }
+  | { kind: "loss"; nodes: string[]; loss: LossName; output: number[]; target: number[]; value: number }
+  | {
+      kind: "backward"
+      layer: number
+      // dLoss/dSum of each neuron in the layer
+      deltas: { node: string; delta: number }[]
+      weights: { connection: number; gradient: number }[]
+    }
+
+// Break one sample's pass into individual operations: every neuron's weighted sum and activation,
+// then the loss, then the gradients of each layer from the output back to the first hidden layer
+export function traceSample(network: DenseNetwork, sample: Sample, config: EngineConfig): TraceStep[] {
+  const forward = forwardPass(network, sample.input, config)
+  const gradients = computeGradients(network, [sample], config)
+  const { ids } = network
+  const layerCount = ids.length
+  const steps: TraceStep[] = []
+
+  network.layers.forEach(({ inputs, size, weights, biases, connections }, k) => {
+    const layer = k + 1
+    const activation = layerActivation(config, layer)
+    const batchNorm = layer < layerCount - 1 && config.batchNorm?.[layer - 1] === true
+
+    ids[layer].forEach((node, j) => {
+      const terms = Array.from({ length: inputs }, (_, i) => j * inputs + i)
+        .filter((slot) => connections[slot] >= 0)
+        .map((slot) => {
+          const from = ids[k][slot % inputs]
+          return {
+            from,
+            connection: connections[slot],
+            activation: forward.activations.get(from) ?? 0,
+            weight: weights[slot],
+          }
+        })
+      const value = terms.reduce((sum, term) => sum + term.activation * term.weight, biases[j])
+      steps.push({ kind: "sum", node, terms, bias: biases[j], value })
+      steps.push({
+        kind: "activation",
+        node,
+        activation,
+        layerwise: isLayerwise(activation) && size > 1,
+        batchNorm,
+        input: forward.preActivations.get(node) ?? value,
+        output: forward.activations.get(node) ?? 0,
+      })
+    })
+  })
+
+  const outputIds = ids[layerCount - 1]
+  steps.push({
+    kind: "loss",
+    nodes: outputIds,
+    loss: config.loss,
+    output: forward.output,
+    target: sample.target,
+    value: lossFunctions[config.loss].compute(forward.output, sample.target),
+  })
+
+  for (let k = network.layers.length - 1; k >= 0; k--) {
+    const { connections } = network.layers[k]
+    const weights: { connection: number; gradient: number }[] = []
+    connections.forEach((connection, slot) => {
+      if (connection >= 0) weights.push({ connection, gradient: gradients.weights[k][slot] })
+    })
+    steps.push({
+      kind: "backward",
+      layer: k + 1,
+      deltas: ids[k + 1].map((node, j) => ({ node, delta: gradients.biases[k][j] })),
+      weights: weights.sort((a, b) => a.connection - b.connection),
+    })
+  }
+
+  return steps
+}
@@ -0,0 +1,142 @@
+// Runs backpropagation off the main thread. The page sends the network and run settings when training
+// starts; the worker trains one epoch per tick on its own copy and streams a snapshot after every epoch.
+import { evaluateDense, trainDenseEpoch, type DenseNetwork, type EngineConfig } from "./engine"
+import type { OptimizerConfig } from "./optimizers"
+import { createRandom, type RandomSource } from "./random"
+import {
+  initialPlateauState,
+  scheduledLearningRate,
+  updatePlateau,
+  type PlateauState,
+  type ScheduleName,
+  type ScheduleParams,
+} from "./schedules"
+import type { Sample, TrainingMetrics } from "./types"
+
+export interface TrainingRun {
+  // Tags every snapshot, so the page can drop ones from a run it has already stopped
+  id: number
+  network: DenseNetwork
+  train: Sample[]
+  validation: Sample[]
+  config: EngineConfig
+  // Base learning rate; the schedule scales it epoch by epoch
+  optimizer: OptimizerConfig
+  schedule: ScheduleName
+  scheduleParams: ScheduleParams
+  batchSize: number
+  shuffle: boolean
+  // Epochs already completed, and where to stop
+  epoch: number
+  maxEpochs: number
+  // Stop after this many epochs without a new best validation loss (null to train on)
+  patience: number | null
+  // Milliseconds between epochs
+  interval: number
+  // The network was edited by hand since the last snapshot, so the checkpoint and plateau history are stale
+  edited: boolean
+}
+
+export type TrainingRequest =
+  // A new network or seed: restart the shuffle stream and forget the plateau and checkpoint history
+  | { type: "reset"; seed: number }
+  | { type: "start"; run: TrainingRun }
+  | { type: "stop" }
+
+export interface TrainingSnapshot {
+  run: number
+  network: DenseNetwork
+  metrics: TrainingMetrics
+  batchLosses: number[]
+  // Set when early stopping ended the run and restored the best weights, with the scores of the epoch they
+  // come from (`metrics` stays the record of the epoch that was just trained)
+  earlyStop?: { epoch: number; best: TrainingMetrics }
+  // No more snapshots follow for this run
+  finished: boolean
+}
+
+let random: RandomSource = Math.random
+let plateau: PlateauState = initialPlateauState()
+// Epoch with the lowest validation loss so far, and the weights that produced it (restored on early stop)
+let best: { loss: number; metrics: TrainingMetrics; network: DenseNetwork } | null = null
+let timer: ReturnType<typeof setTimeout> | undefined
+
+function trainNextEpoch(run: TrainingRun) {
+  const rate = scheduledLearningRate(
+    run.optimizer.learningRate,
+    run.epoch,
+    run.maxEpochs,
+    run.schedule,
+    run.scheduleParams,
+    plateau,
+  )
+  const result = trainDenseEpoch(
+    run.network,
+    run.train,
+    run.config,
+    { ...run.optimizer, learningRate: rate },
+    { batchSize: run.batchSize, shuffle: run.shuffle, random },
+  )
+  const validation = run.validation.length > 0 ? evaluateDense(run.network, run.validation, run.config) : undefined
+  run.epoch++
+
+  const metrics: TrainingMetrics = {
+    epoch: run.epoch,
+    loss: result.loss,
+    accuracy: result.accuracy,
+    validationLoss: validation?.loss,
+    validationAccuracy: validation?.accuracy,
+    learningRate: rate,
+    gradientNorms: result.gradientNorms,
+  }
+
+  // Reduce-on-plateau watches the validation loss when there is one
+  plateau = updatePlateau(plateau, validation?.loss ?? result.loss, run.scheduleParams)
+
+  // Early stopping: give up after `patience` epochs without a new best validation loss
+  let earlyStop: TrainingSnapshot["earlyStop"]
+  if (run.patience !== null && validation) {
+    if (!best || validation.loss < best.loss) {
+      best = { loss: validation.loss, metrics, network: structuredClone(run.network) }
+    } else if (run.epoch - best.metrics.epoch >= run.patience) {
+      run.network = structuredClone(best.network)
+      earlyStop = { epoch: run.epoch, best: best.metrics }
+    }
+  }
+
+  const finished = earlyStop !== undefined || run.epoch >= run.maxEpochs
+  const snapshot: TrainingSnapshot = {
+    run: run.id,
+    network: run.network,
+    metrics,
+    batchLosses: result.batchLosses,
+    earlyStop,
+    finished,
+  }
+  self.postMessage(snapshot)
+
+  timer = finished ? undefined : setTimeout(() => trainNextEpoch(run), run.interval)
+}
+
+self.addEventListener("message", (event: MessageEvent<TrainingRequest>) => {
+  const request = event.data
+  clearTimeout(timer)
+  timer = undefined
+
+  switch (request.type) {
+    case "reset":
+      random = createRandom(request.seed)
+      plateau = initialPlateauState()
+      best = null
+      break
+    case "start":
+      if (request.run.edited) {
+        plateau = initialPlateauState()
+        best = null
+      }
+      timer = setTimeout(() => trainNextEpoch(request.run), request.run.interval)
+      break
+    case "stop":
+      break
+  }
+})
@@ -0,0 +1,65 @@
+// Types for our neural network
+export interface NetworkNode {
+  id: string
+  layer: number
+  position: number
+  activation: number
+  bias: number
+  input?: number
+  output?: number
+  optimizerState?: OptimizerState
+  // Zeroed by dropout on the most recent displayed pass
+  dropped?: boolean
+  // Mean |∂loss/∂bias| over the last training epoch
+  gradient?: number
+  batchNorm?: BatchNormParams
+}
+
+// Learnable scale/shift and inference statistics for a batch-normalized neuron
+export interface BatchNormParams {
+  gamma: number
+  beta: number
+  runningMean: number
+  runningVariance: number
+  gammaState?: OptimizerState
+  betaState?: OptimizerState
+}
+
+export interface NetworkConnection {
+  from: string
+  to: string
+  weight: number
+  active: boolean
+  optimizerState?: OptimizerState
+  // Mean |∂loss/∂weight| over the last training epoch
+  gradient?: number
+  // Held at its current value by training (set by hand in the connection editor)
+  frozen?: boolean
+}
+
+// Per-parameter optimizer memory (velocity for momentum methods, running averages for adaptive ones)
+export interface OptimizerState {
+  velocity: number
+  cache: number
+  m: number
+  v: number
+  step: number
+}
+
+export interface TrainingMetrics {
+  epoch: number
+  loss: number
+  accuracy: number
+  // Absent when no validation split is held out
+  validationLoss?: number
+  validationAccuracy?: number
+  learningRate: number
+  // Weight-gradient norm of each non-input layer (entry i is layer i + 1)
+  gradientNorms?: number[]
+}
+
+// A single training example: input vector and desired output vector
+export interface Sample {
+  input: number[]
+  target: number[]
+}
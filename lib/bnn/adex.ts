@@ -0,0 +1,127 @@
+import type { CurrentStep } from "./hodgkin-huxley"
+import type { SpikingTrace } from "./izhikevich"
+
+// Adaptive exponential integrate-and-fire (Brette & Gerstner 2005):
+// C dV/dt = −gL(V − EL) + gL ΔT e^((V − VT)/ΔT) − w + I,  τw dw/dt = a(V − EL) − w,
+// and at the peak V resets to Vr while the adaptation current w jumps by b. Units: pF, nS, mV, ms, pA.
+export interface AdExParams {
+  label: string
+  description: string
+  capacitance: number
+  leakConductance: number
+  leakReversal: number
+  // Threshold where the exponential upswing takes over, and how sharp it is
+  threshold: number
+  slope: number
+  // Subthreshold adaptation (nS), its time constant and the spike-triggered increment (pA)
+  adaptation: number
+  adaptationTime: number
+  spikeAdaptation: number
+  reset: number
+  // Step current that shows the pattern best (pA)
+  current: number
+}
+
+export type AdExPresetName = "tonic" | "adapting" | "initialBurst" | "bursting"
+
+// Parameter sets from Naud, Marcille, Clopath & Gerstner (2008)
+export const adexPresets: Record<AdExPresetName, AdExParams> = {
+  tonic: {
+    label: "Tonic spiking",
+    description: "Regular firing with no spike-triggered adaptation, like fast-spiking interneurons",
+    capacitance: 200,
+    leakConductance: 10,
+    leakReversal: -70,
+    threshold: -50,
+    slope: 2,
+    adaptation: 2,
+    adaptationTime: 30,
+    spikeAdaptation: 0,
+    reset: -58,
+    current: 500,
+  },
+  adapting: {
+    label: "Adapting",
+    description: "Each spike adds to a slow adaptation current, so the intervals lengthen",
+    capacitance: 200,
+    leakConductance: 12,
+    leakReversal: -70,
+    threshold: -50,
+    slope: 2,
+    adaptation: 2,
+    adaptationTime: 300,
+    spikeAdaptation: 60,
+    reset: -58,
+    current: 500,
+  },
+  initialBurst: {
+    label: "Initial burst",
+    description: "A burst at onset, then regular spiking",
+    capacitance: 130,
+    leakConductance: 18,
+    leakReversal: -58,
+    threshold: -50,
+    slope: 2,
+    adaptation: 4,
+    adaptationTime: 150,
+    spikeAdaptation: 120,
+    reset: -50,
+    current: 400,
+  },
+  bursting: {
+    label: "Regular bursting",
+    description: "Repeated bursts separated by quiet periods",
+    capacitance: 200,
+    leakConductance: 10,
+    leakReversal: -58,
+    threshold: -50,
+    slope: 2,
+    adaptation: 2,
+    adaptationTime: 120,
+    spikeAdaptation: 100,
+    reset: -46,
+    current: 210,
+  },
+}
+
+export const ADEX_PEAK = 0
+export const ADEX_DT = 0.05
+
+// One step; `input` gives the injected current in pA at the current voltage
+export function stepAdEx(v: number, w: number, p: AdExParams, input: (v: number) => number, dt = ADEX_DT) {
+  // Past a few slopes above threshold the upswing diverges within the step anyway; capping keeps it finite
+  const upswing = p.leakConductance * p.slope * Math.exp(Math.min((v - p.threshold) / p.slope, 20))
+  const leak = -p.leakConductance * (v - p.leakReversal)
+  const voltage = v + ((leak + upswing - w + input(v)) / p.capacitance) * dt
+  const adaptation = w + ((p.adaptation * (v - p.leakReversal) - w) / p.adaptationTime) * dt
+  if (voltage >= ADEX_PEAK) return { voltage: p.reset, adaptation: adaptation + p.spikeAdaptation, spiked: true }
+  return { voltage, adaptation, spiked: false }
+}
+
+export function simulateAdEx(params: AdExParams, step: CurrentStep, length: number, sampleEvery = 0.1): SpikingTrace {
+  const trace: SpikingTrace = { time: [], voltage: [], recovery: [], spikeTimes: [] }
+  let v = params.leakReversal
+  let w = 0
+  let peaked = false
+  const stride = Math.round(sampleEvery / ADEX_DT)
+  const steps = Math.round(length / ADEX_DT)
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i * ADEX_DT
+    if (i % stride === 0) {
+      trace.time.push(t)
+      trace.voltage.push(peaked ? ADEX_PEAK : v)
+      trace.recovery.push(w)
+      peaked = false
+    }
+    const injected = t >= step.onset && t < step.onset + step.duration ? step.amplitude : 0
+    const next = stepAdEx(v, w, params, () => injected)
+    if (next.spiked) {
+      trace.spikeTimes.push(t)
+      peaked = true
+    }
+    v = next.voltage
+    w = next.adaptation
+  }
+  return trace
+}
@@ -0,0 +1,33 @@
+import type { SpikeEvent } from "./types"
+
+export interface RateBin {
+  start: number
+  count: number
+  // Mean rate per neuron over the part of the bin inside the window (Hz)
+  rate: number
+}
+
+// Population firing rate (the PSTH of the whole network) over the window [start, end]. Bins sit on multiples of
+// binWidth so they hold still as the window slides; the bins at either edge are rated over their overlap only.
+export function populationRate(
+  spikes: SpikeEvent[],
+  neuronCount: number,
+  start: number,
+  end: number,
+  binWidth: number,
+): RateBin[] {
+  const bins: RateBin[] = []
+  for (let binStart = Math.floor(start / binWidth) * binWidth; binStart < end; binStart += binWidth) {
+    bins.push({ start: binStart, count: 0, rate: 0 })
+  }
+  if (bins.length === 0) return bins
+  spikes.forEach((spike) => {
+    if (spike.time < start || spike.time > end) return
+    bins[Math.min(Math.floor((spike.time - bins[0].start) / binWidth), bins.length - 1)].count++
+  })
+  bins.forEach((bin) => {
+    const seconds = (Math.min(bin.start + binWidth, end) - Math.max(bin.start, start)) / 1000
+    bin.rate = neuronCount > 0 && seconds > 0 ? bin.count / neuronCount / seconds : 0
+  })
+  return bins
+}
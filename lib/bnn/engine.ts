@@ -0,0 +1,249 @@
+import { ADEX_DT, adexPresets, stepAdEx } from "./adex"
+import { HH, HH_DT, steadyStateGates, stepHodgkinHuxley, type GatingState } from "./hodgkin-huxley"
+import { IZHIKEVICH_DT, izhikevichFixedPoints, izhikevichPresets, stepIzhikevich } from "./izhikevich"
+import type { CellTypes, NeuronModelName } from "./models"
+import { decayTrace, onPostsynapticSpike, onPresynapticSpike, type StdpConfig } from "./stdp"
+import { activateSynapse, decaySynapse, synapseKinetics, synapticConductance } from "./synapses"
+import type { ActionPotential, BiologicalNeuron, Synapse } from "./types"
+
+export interface NetworkState {
+  neurons: BiologicalNeuron[]
+  synapses: Synapse[]
+  actionPotentials: ActionPotential[]
+  time: number
+}
+
+export interface StepOptions {
+  // ms
+  dt: number
+  model: NeuronModelName
+  cellTypes: CellTypes
+  // Chance per ms that a neuron receives an external +12 mV kick
+  stimulation: number
+  // Multiplies every synaptic conductance; 0 disconnects the network
+  synapticGain: number
+  plasticity: StdpConfig
+}
+
+// Membrane leak conductance of the integrate-and-fire model per ms (a 10 ms membrane time constant)
+const LEAK_CONDUCTANCE = 0.1
+const LEAKY_RESTING_POTENTIAL = -70
+const LEAKY_THRESHOLD = -55
+// Time an action potential takes to travel down the axon to the terminals
+export const CONDUCTION_TIME = 20
+// The integrate-and-fire model can't spike again within this long of the last spike
+export const REFRACTORY_PERIOD = 50
+// Height at which spikes are drawn, whichever model produced them
+export const SPIKE_PEAK = 40
+// Hodgkin-Huxley spikes are counted when the voltage rises through this level
+const SPIKE_DETECTION = 0
+const STIMULUS = 12
+// Synapses stay highlighted this long after releasing transmitter
+const ACTIVE_WINDOW = 20
+
+// An open synaptic conductance and the potential it pulls the membrane towards
+interface SynapticInput {
+  conductance: number
+  reversal: number
+}
+
+// Rest, nominal threshold and recovery state of a neuron under a model
+function restingState(neuron: BiologicalNeuron, model: NeuronModelName, cellTypes: CellTypes) {
+  if (model === "izhikevich") {
+    const params = izhikevichPresets[cellTypes.izhikevich[neuron.type]]
+    const { rest, threshold } = izhikevichFixedPoints(params)
+    return { restingPotential: rest, threshold, recovery: params.b * rest }
+  }
+  if (model === "adex") {
+    const params = adexPresets[cellTypes.adex[neuron.type]]
+    return { restingPotential: params.leakReversal, threshold: params.threshold, recovery: 0 }
+  }
+  // Hodgkin-Huxley has no fixed threshold; the integrate-and-fire value is a fair guide to where spikes start
+  const restingPotential = model === "hodgkinHuxley" ? HH.restingPotential : LEAKY_RESTING_POTENTIAL
+  return { restingPotential, threshold: LEAKY_THRESHOLD, recovery: 0 }
+}
+
+// Put every membrane at rest for the model, with its gates and recovery variables settled there
+export function restMembranes(state: NetworkState, model: NeuronModelName, cellTypes: CellTypes): NetworkState {
+  return {
+    ...state,
+    neurons: state.neurons.map((neuron) => {
+      const rest = restingState(neuron, model, cellTypes)
+      return {
+        ...neuron,
+        ...rest,
+        currentPotential: rest.restingPotential,
+        gating: steadyStateGates(rest.restingPotential),
+      }
+    }),
+  }
+}
+
+// Move neurons onto new cell-type presets in place: potentials, recovery variables and synapses carry on from
+// where they are. Only the stored rest and threshold need updating; the step reads the other preset parameters.
+export function applyCellTypes(state: NetworkState, model: NeuronModelName, cellTypes: CellTypes): NetworkState {
+  return {
+    ...state,
+    neurons: state.neurons.map((neuron) => {
+      const { restingPotential, threshold } = restingState(neuron, model, cellTypes)
+      return { ...neuron, restingPotential, threshold }
+    }),
+  }
+}
+
+// Leak and synapses are conductances in parallel: the membrane relaxes exponentially towards their
+// weighted mean reversal potential, which stays exact however large dt or the conductances are
+function integrateLeaky(neuron: BiologicalNeuron, inputs: SynapticInput[], dt: number) {
+  let conductance = LEAK_CONDUCTANCE
+  let drive = LEAK_CONDUCTANCE * neuron.restingPotential
+  inputs.forEach((input) => {
+    conductance += input.conductance
+    drive += input.conductance * input.reversal
+  })
+  const target = drive / conductance
+  return target + (neuron.currentPotential - target) * Math.exp(-conductance * dt)
+}
+
+const synapticCurrent = (inputs: SynapticInput[]) => (v: number) =>
+  inputs.reduce((sum, input) => sum + input.conductance * (input.reversal - v), 0)
+
+// The remaining models take many small steps per frame. Spikes are caught inside the frame, since one
+// lasts only about 2 ms (and Izhikevich and AdEx reset within a single step).
+function integrateHodgkinHuxley(neuron: BiologicalNeuron, inputs: SynapticInput[], dt: number) {
+  const current = synapticCurrent(inputs)
+  let voltage = neuron.currentPotential
+  let gates: GatingState = neuron.gating
+  let spiked = false
+  for (let i = 0; i < Math.max(1, Math.round(dt / HH_DT)); i++) {
+    const next = stepHodgkinHuxley(voltage, gates, current)
+    if (voltage < SPIKE_DETECTION && next.voltage >= SPIKE_DETECTION) spiked = true
+    voltage = next.voltage
+    gates = next.gates
+  }
+  return { voltage, gates, recovery: neuron.recovery, spiked }
+}
+
+function integrateIzhikevich(neuron: BiologicalNeuron, inputs: SynapticInput[], dt: number, cellTypes: CellTypes) {
+  const params = izhikevichPresets[cellTypes.izhikevich[neuron.type]]
+  const current = synapticCurrent(inputs)
+  let voltage = neuron.currentPotential
+  let recovery = neuron.recovery
+  let spiked = false
+  for (let i = 0; i < Math.max(1, Math.round(dt / IZHIKEVICH_DT)); i++) {
+    const next = stepIzhikevich(voltage, recovery, params, current)
+    spiked ||= next.spiked
+    voltage = next.voltage
+    recovery = next.recovery
+  }
+  return { voltage, gates: neuron.gating, recovery, spiked }
+}
+
+// Synaptic conductances are per unit capacitance, so AdEx scales them back up to a current in pA
+function integrateAdEx(neuron: BiologicalNeuron, inputs: SynapticInput[], dt: number, cellTypes: CellTypes) {
+  const params = adexPresets[cellTypes.adex[neuron.type]]
+  const current = synapticCurrent(inputs)
+  let voltage = neuron.currentPotential
+  let recovery = neuron.recovery
+  let spiked = false
+  for (let i = 0; i < Math.max(1, Math.round(dt / ADEX_DT)); i++) {
+    const next = stepAdEx(voltage, recovery, params, (v) => params.capacitance * current(v))
+    spiked ||= next.spiked
+    voltage = next.voltage
+    recovery = next.adaptation
+  }
+  return { voltage, gates: neuron.gating, recovery, spiked }
+}
+
+// Only excitatory synapses learn; inhibitory plasticity follows different rules
+const isPlastic = (synapse: Synapse, plasticity: StdpConfig) =>
+  plasticity.enabled && synapse.neurotransmitter === "glutamate"
+
+// Advance the network by dt: deliver spikes that reach their terminals, let the synaptic conductances evolve,
+// then integrate each membrane, fire the neurons that reach threshold and apply STDP to the pairs that formed
+export function stepNetwork(state: NetworkState, options: StepOptions): NetworkState {
+  const { dt, model, cellTypes, stimulation, synapticGain, plasticity } = options
+  const time = state.time + dt
+
+  const actionPotentials: ActionPotential[] = []
+  const arrived = new Set<string>()
+  state.actionPotentials.forEach((ap) => {
+    const position = (time - ap.startTime) / CONDUCTION_TIME
+    if (position >= 1) arrived.add(ap.neuronId)
+    else actionPotentials.push({ ...ap, position })
+  })
+
+  const postTraces = new Map(
+    state.neurons.map((neuron) => [neuron.id, decayTrace(neuron.postTrace, dt, plasticity.depressionTime)]),
+  )
+
+  let synapses = state.synapses.map((synapse) => {
+    const decayed = {
+      ...decaySynapse(synapse, dt),
+      preTrace: decayTrace(synapse.preTrace, dt, plasticity.potentiationTime),
+    }
+    if (!arrived.has(synapse.preNeuronId)) {
+      return { ...decayed, isActive: time - synapse.lastActivation < ACTIVE_WINDOW }
+    }
+    const activated = activateSynapse(decayed, time)
+    if (!isPlastic(synapse, plasticity)) return activated
+    return {
+      ...activated,
+      strength: onPresynapticSpike(activated.strength, postTraces.get(synapse.postNeuronId) ?? 0, plasticity),
+      preTrace: activated.preTrace + 1,
+    }
+  })
+
+  const incoming = new Map<string, SynapticInput[]>()
+  synapses.forEach((synapse) => {
+    const kinetics = synapseKinetics[synapse.neurotransmitter]
+    if (!kinetics) return
+    const input = { conductance: synapticConductance(synapse, synapticGain), reversal: kinetics.reversal }
+    incoming.set(synapse.postNeuronId, [...(incoming.get(synapse.postNeuronId) ?? []), input])
+  })
+
+  const neurons = state.neurons.map((neuron) => {
+    const inputs = incoming.get(neuron.id) ?? []
+    const synapticInput = synapticCurrent(inputs)(neuron.currentPotential)
+
+    const result =
+      model === "hodgkinHuxley"
+        ? integrateHodgkinHuxley(neuron, inputs, dt)
+        : model === "izhikevich"
+          ? integrateIzhikevich(neuron, inputs, dt, cellTypes)
+          : model === "adex"
+            ? integrateAdEx(neuron, inputs, dt, cellTypes)
+            : { voltage: integrateLeaky(neuron, inputs, dt), gates: neuron.gating, recovery: 0, spiked: false }
+    const { gates: gating, recovery } = result
+    let { voltage: newPotential, spiked } = result
+
+    // Random background activity
+    newPotential += (Math.random() - 0.5) * 2 * Math.sqrt(dt)
+
+    // External stimulation
+    if (Math.random() < stimulation * dt) newPotential += STIMULUS
+
+    // The integrate-and-fire model has no spike of its own: paste one in and hold off for the refractory period
+    if (model === "leaky") {
+      spiked = newPotential > neuron.threshold && time - neuron.lastSpikeTime > REFRACTORY_PERIOD
+      if (spiked) newPotential = SPIKE_PEAK
+    }
+
+    const postTrace = postTraces.get(neuron.id) ?? 0
+    const updated = { ...neuron, currentPotential: newPotential, gating, recovery, isActive: spiked, synapticInput }
+    if (!spiked) return { ...updated, postTrace }
+    actionPotentials.push({ neuronId: neuron.id, startTime: time, position: 0, amplitude: SPIKE_PEAK })
+    return { ...updated, lastSpikeTime: time, postTrace: postTrace + 1 }
+  })
+
+  // Postsynaptic spikes potentiate the synapses whose presynaptic spikes arrived shortly before
+  const fired = new Set(neurons.filter((neuron) => neuron.isActive).map((neuron) => neuron.id))
+  if (fired.size > 0) {
+    synapses = synapses.map((synapse) =>
+      fired.has(synapse.postNeuronId) && isPlastic(synapse, plasticity)
+        ? { ...synapse, strength: onPostsynapticSpike(synapse.strength, synapse.preTrace, plasticity) }
+        : synapse,
+    )
+  }
+
+  return { neurons, synapses, actionPotentials, time }
+}
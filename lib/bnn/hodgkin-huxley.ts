@@ -0,0 +1,122 @@
+// The Hodgkin-Huxley model of the squid giant axon, in the modern convention (rest near −65 mV).
+// Units: mV, ms, µA/cm² and mS/cm², with a membrane capacitance of 1 µF/cm².
+export interface GatingState {
+  // Sodium activation
+  m: number
+  // Sodium inactivation
+  h: number
+  // Potassium activation
+  n: number
+}
+
+// Membrane currents, outward positive: a positive current pulls the voltage down
+export interface IonicCurrents {
+  sodium: number
+  potassium: number
+  leak: number
+}
+
+export const HH = {
+  capacitance: 1,
+  sodiumConductance: 120,
+  potassiumConductance: 36,
+  leakConductance: 0.3,
+  sodiumReversal: 50,
+  potassiumReversal: -77,
+  leakReversal: -54.387,
+  restingPotential: -65,
+}
+
+// Integration timestep (ms): small enough for forward Euler on the voltage during the fast sodium upstroke
+export const HH_DT = 0.01
+
+// x / (1 − e^(−x/k)), which tends to k where the rate formulas divide 0 by 0
+const linoid = (x: number, k: number) => (Math.abs(x / k) < 1e-6 ? k * (1 + x / k / 2) : x / (1 - Math.exp(-x / k)))
+
+// Opening (α) and closing (β) rates of each gate per ms at voltage v
+const rates = (v: number) => ({
+  alphaM: 0.1 * linoid(v + 40, 10),
+  betaM: 4 * Math.exp(-(v + 65) / 18),
+  alphaH: 0.07 * Math.exp(-(v + 65) / 20),
+  betaH: 1 / (1 + Math.exp(-(v + 35) / 10)),
+  alphaN: 0.01 * linoid(v + 55, 10),
+  betaN: 0.125 * Math.exp(-(v + 65) / 80),
+})
+
+// Gates settled at a fixed voltage
+export function steadyStateGates(v: number): GatingState {
+  const r = rates(v)
+  return {
+    m: r.alphaM / (r.alphaM + r.betaM),
+    h: r.alphaH / (r.alphaH + r.betaH),
+    n: r.alphaN / (r.alphaN + r.betaN),
+  }
+}
+
+export function ionicCurrents(v: number, { m, h, n }: GatingState): IonicCurrents {
+  return {
+    sodium: HH.sodiumConductance * m ** 3 * h * (v - HH.sodiumReversal),
+    potassium: HH.potassiumConductance * n ** 4 * (v - HH.potassiumReversal),
+    leak: HH.leakConductance * (v - HH.leakReversal),
+  }
+}
+
+// Each gate relaxes exponentially towards its steady state with time constant 1/(α+β)
+const relax = (x: number, alpha: number, beta: number, dt: number) => {
+  const target = alpha / (alpha + beta)
+  return target + (x - target) * Math.exp(-(alpha + beta) * dt)
+}
+
+// One HH_DT step. `input` gives the injected current (inward positive) at the current voltage, so synaptic
+// conductances can be folded in.
+export function stepHodgkinHuxley(v: number, gates: GatingState, input: (v: number) => number, dt = HH_DT) {
+  const currents = ionicCurrents(v, gates)
+  const r = rates(v)
+  const voltage = v + ((input(v) - currents.sodium - currents.potassium - currents.leak) / HH.capacitance) * dt
+  return {
+    voltage,
+    gates: {
+      m: relax(gates.m, r.alphaM, r.betaM, dt),
+      h: relax(gates.h, r.alphaH, r.betaH, dt),
+      n: relax(gates.n, r.alphaN, r.betaN, dt),
+    },
+  }
+}
+
+export interface CurrentStep {
+  // µA/cm²
+  amplitude: number
+  onset: number
+  duration: number
+}
+
+export interface HodgkinHuxleyTrace {
+  time: number[]
+  voltage: number[]
+  gates: GatingState[]
+  currents: IonicCurrents[]
+}
+
+// Record a resting neuron's response to a current step, sampled every `sampleEvery` ms
+export function simulateHodgkinHuxley(step: CurrentStep, length: number, sampleEvery = 0.1): HodgkinHuxleyTrace {
+  const trace: HodgkinHuxleyTrace = { time: [], voltage: [], gates: [], currents: [] }
+  let v = HH.restingPotential
+  let gates = steadyStateGates(v)
+  const stride = Math.round(sampleEvery / HH_DT)
+  const steps = Math.round(length / HH_DT)
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i * HH_DT
+    if (i % stride === 0) {
+      trace.time.push(t)
+      trace.voltage.push(v)
+      trace.gates.push(gates)
+      trace.currents.push(ionicCurrents(v, gates))
+    }
+    const injected = t >= step.onset && t < step.onset + step.duration ? step.amplitude : 0
+    const next = stepHodgkinHuxley(v, gates, () => injected)
+    v = next.voltage
+    gates = next.gates
+  }
+  return trace
+}
@@ -0,0 +1,128 @@
+import type { CurrentStep } from "./hodgkin-huxley"
+
+// Izhikevich (2003) simple model: dv/dt = 0.04v² + 5v + 140 − u + I, du/dt = a(bv − u),
+// and when v reaches 30 mV it resets to c while the recovery variable u jumps by d.
+export interface IzhikevichParams {
+  label: string
+  description: string
+  // Recovery speed
+  a: number
+  // Coupling of the recovery variable to v
+  b: number
+  // Reset potential (mV)
+  c: number
+  // Recovery jump per spike
+  d: number
+}
+
+export type IzhikevichPresetName = "regular" | "fast" | "chattering" | "bursting" | "lowThreshold"
+
+export const izhikevichPresets: Record<IzhikevichPresetName, IzhikevichParams> = {
+  regular: {
+    label: "Regular spiking (RS)",
+    description: "Excitatory cortical cells: spikes slow down during a sustained input",
+    a: 0.02,
+    b: 0.2,
+    c: -65,
+    d: 8,
+  },
+  fast: {
+    label: "Fast spiking (FS)",
+    description: "Inhibitory interneurons: high rates with almost no adaptation",
+    a: 0.1,
+    b: 0.2,
+    c: -65,
+    d: 2,
+  },
+  chattering: {
+    label: "Chattering (CH)",
+    description: "Fast rhythmic bursts of closely spaced spikes",
+    a: 0.02,
+    b: 0.2,
+    c: -50,
+    d: 2,
+  },
+  bursting: {
+    label: "Intrinsically bursting (IB)",
+    description: "An initial burst followed by tonic spiking",
+    a: 0.02,
+    b: 0.2,
+    c: -55,
+    d: 4,
+  },
+  lowThreshold: {
+    label: "Low-threshold spiking (LTS)",
+    description: "Interneurons that fire readily from small inputs and rebound after inhibition",
+    a: 0.02,
+    b: 0.25,
+    c: -65,
+    d: 2,
+  },
+}
+
+export const IZHIKEVICH_PEAK = 30
+// Forward Euler step (ms); the quadratic term needs it well below Izhikevich's original 0.5 ms
+export const IZHIKEVICH_DT = 0.05
+
+// Stable and unstable fixed points of the voltage equation without input: rest and threshold
+export function izhikevichFixedPoints({ b }: IzhikevichParams) {
+  const slope = 5 - b
+  const root = Math.sqrt(slope * slope - 4 * 0.04 * 140)
+  return { rest: (-slope - root) / 0.08, threshold: (-slope + root) / 0.08 }
+}
+
+// One step; `input` gives the injected current (inward positive) at the current voltage
+export function stepIzhikevich(
+  v: number,
+  u: number,
+  params: IzhikevichParams,
+  input: (v: number) => number,
+  dt = IZHIKEVICH_DT,
+) {
+  const voltage = v + (0.04 * v * v + 5 * v + 140 - u + input(v)) * dt
+  const recovery = u + params.a * (params.b * v - u) * dt
+  if (voltage >= IZHIKEVICH_PEAK) return { voltage: params.c, recovery: recovery + params.d, spiked: true }
+  return { voltage, recovery, spiked: false }
+}
+
+export interface SpikingTrace {
+  time: number[]
+  // Spikes are drawn at their peak, though the state resets within the same step
+  voltage: number[]
+  // u for Izhikevich, the adaptation current w for AdEx
+  recovery: number[]
+  spikeTimes: number[]
+}
+
+export function simulateIzhikevich(
+  params: IzhikevichParams,
+  step: CurrentStep,
+  length: number,
+  sampleEvery = 0.1,
+): SpikingTrace {
+  const trace: SpikingTrace = { time: [], voltage: [], recovery: [], spikeTimes: [] }
+  let v = izhikevichFixedPoints(params).rest
+  let u = params.b * v
+  let peaked = false
+  const stride = Math.round(sampleEvery / IZHIKEVICH_DT)
+  const steps = Math.round(length / IZHIKEVICH_DT)
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i * IZHIKEVICH_DT
+    if (i % stride === 0) {
+      trace.time.push(t)
+      trace.voltage.push(peaked ? IZHIKEVICH_PEAK : v)
+      trace.recovery.push(u)
+      peaked = false
+    }
+    const injected = t >= step.onset && t < step.onset + step.duration ? step.amplitude : 0
+    const next = stepIzhikevich(v, u, params, () => injected)
+    if (next.spiked) {
+      trace.spikeTimes.push(t)
+      peaked = true
+    }
+    v = next.voltage
+    u = next.recovery
+  }
+  return trace
+}
@@ -0,0 +1,38 @@
+import type { AdExPresetName } from "./adex"
+import type { IzhikevichPresetName } from "./izhikevich"
+import type { NeuronType } from "./types"
+
+// Neuron models the network can run. Every neuron in the network follows the chosen one.
+export type NeuronModelName = "leaky" | "hodgkinHuxley" | "izhikevich" | "adex"
+
+export const neuronModels: Record<NeuronModelName, { label: string; description: string }> = {
+  leaky: {
+    label: "Leaky integrate-and-fire",
+    description: "The membrane leaks back to rest; crossing threshold adds a spike and starts a refractory period.",
+  },
+  hodgkinHuxley: {
+    label: "Hodgkin-Huxley",
+    description:
+      "Voltage-gated Na⁺ and K⁺ channels with m, h and n gates shape every spike; threshold and refractoriness emerge.",
+  },
+  izhikevich: {
+    label: "Izhikevich",
+    description: "Two variables and four parameters reproduce the firing patterns of the main cortical cell classes.",
+  },
+  adex: {
+    label: "Adaptive exponential (AdEx)",
+    description: "An exponential spike upswing plus an adaptation current that grows with every spike.",
+  },
+}
+
+// Which parameter preset each neuron type runs under the Izhikevich and AdEx models
+export interface CellTypes {
+  izhikevich: Record<NeuronType, IzhikevichPresetName>
+  adex: Record<NeuronType, AdExPresetName>
+}
+
+// Pyramidal cells adapt, interneurons fire fast without adapting, motor neurons open with a burst
+export const defaultCellTypes: CellTypes = {
+  izhikevich: { pyramidal: "regular", interneuron: "fast", motor: "bursting" },
+  adex: { pyramidal: "adapting", interneuron: "tonic", motor: "initialBurst" },
+}
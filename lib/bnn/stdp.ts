@@ -0,0 +1,87 @@
+// Spike-timing-dependent plasticity with exponential traces. Each synapse keeps a trace of its presynaptic
+// spikes and each neuron one of its own spikes; a spike at one side reads the trace of the other, so every
+// pre/post pair changes the weight by the classic window Δw(Δt) with Δt = t_post − t_pre.
+export interface StdpConfig {
+  enabled: boolean
+  // Potentiation when the presynaptic spike comes first (A+) and depression when it comes second (A−)
+  potentiation: number
+  depression: number
+  // Width of the two halves of the window (τ+, τ−), ms
+  potentiationTime: number
+  depressionTime: number
+  // Hard bounds on the synaptic strength
+  minWeight: number
+  maxWeight: number
+}
+
+export const defaultStdp: StdpConfig = {
+  enabled: false,
+  potentiation: 0.01,
+  // Slightly stronger depression keeps uncorrelated firing from driving every weight to the ceiling
+  depression: 0.012,
+  potentiationTime: 20,
+  depressionTime: 20,
+  minWeight: 0,
+  maxWeight: 1,
+}
+
+const clamp = (weight: number, config: StdpConfig) => Math.min(config.maxWeight, Math.max(config.minWeight, weight))
+
+export const decayTrace = (trace: number, dt: number, timeConstant: number) => trace * Math.exp(-dt / timeConstant)
+
+// A presynaptic spike reaches the synapse after postsynaptic spikes: depress by their trace
+export const onPresynapticSpike = (weight: number, postTrace: number, config: StdpConfig) =>
+  clamp(weight - config.depression * postTrace, config)
+
+// The postsynaptic neuron fires after presynaptic spikes: potentiate by their trace
+export const onPostsynapticSpike = (weight: number, preTrace: number, config: StdpConfig) =>
+  clamp(weight + config.potentiation * preTrace, config)
+
+// The weight change the rule prescribes for a single pair. Simultaneous spikes count as pre before post,
+// matching the order the network applies them in.
+export function stdpWindow(delta: number, config: StdpConfig) {
+  if (delta >= 0) return config.potentiation * Math.exp(-delta / config.potentiationTime)
+  return -config.depression * Math.exp(delta / config.depressionTime)
+}
+
+export interface PairingResult {
+  delta: number
+  // Mean weight change per pairing
+  change: number
+}
+
+// Pairing protocol after Bi & Poo (1998): for each offset, start a synapse mid-range and pair a presynaptic
+// spike with a postsynaptic one Δt later, `pairs` times at `frequency` Hz, through the same trace updates the
+// network uses. Bounds clip the result just as they would in the network.
+export function pairingProtocol(config: StdpConfig, deltas: number[], pairs = 60, frequency = 1): PairingResult[] {
+  const period = 1000 / frequency
+  return deltas.map((delta) => {
+    const initial = (config.minWeight + config.maxWeight) / 2
+    let weight = initial
+    let preTrace = 0
+    let postTrace = 0
+    let time = Math.min(0, delta)
+
+    // Both spikes of every pairing in time order; a tie counts the presynaptic spike first
+    const events = Array.from({ length: pairs }, (_, i) => [
+      { time: i * period, pre: true },
+      { time: i * period + delta, pre: false },
+    ])
+      .flat()
+      .sort((a, b) => a.time - b.time || (a.pre ? -1 : 1))
+
+    events.forEach((event) => {
+      preTrace = decayTrace(preTrace, event.time - time, config.potentiationTime)
+      postTrace = decayTrace(postTrace, event.time - time, config.depressionTime)
+      time = event.time
+      if (event.pre) {
+        weight = onPresynapticSpike(weight, postTrace, config)
+        preTrace += 1
+      } else {
+        weight = onPostsynapticSpike(weight, preTrace, config)
+        postTrace += 1
+      }
+    })
+    return { delta, change: (weight - initial) / pairs }
+  })
+}
@@ -0,0 +1,59 @@
+import type { Neurotransmitter, Synapse } from "./types"
+
+// Receptor kinetics of a fast chemical synapse. The conductance after a presynaptic spike follows a
+// difference of exponentials, g(t) ∝ e^(−t/τdecay) − e^(−t/τrise), and drives the membrane towards `reversal`.
+export interface SynapseKinetics {
+  label: string
+  receptor: string
+  reversal: number
+  riseTime: number
+  decayTime: number
+}
+
+// Dopamine acts through slow metabotropic receptors, so it has no fast postsynaptic potential here
+export const synapseKinetics: Record<Neurotransmitter, SynapseKinetics | null> = {
+  // Reversal near 0 mV: well above threshold, so opening the channel depolarizes (EPSP)
+  glutamate: { label: "Glutamate", receptor: "AMPA", reversal: 0, riseTime: 0.5, decayTime: 5 },
+  // Chloride reversal just below rest: hyperpolarizes (IPSP) and shunts any excitation arriving with it
+  gaba: { label: "GABA", receptor: "GABA-A", reversal: -80, riseTime: 1, decayTime: 12 },
+  dopamine: null,
+}
+
+// Peak conductance (per ms, i.e. mS/cm² on a 1 µF/cm² membrane) of a synapse with strength 1
+export const PEAK_CONDUCTANCE = 0.12
+
+// Scales the difference of exponentials so that a single spike peaks at exactly `strength`
+const peakNormalization = ({ riseTime, decayTime }: SynapseKinetics) => {
+  const peakTime = ((riseTime * decayTime) / (decayTime - riseTime)) * Math.log(decayTime / riseTime)
+  return 1 / (Math.exp(-peakTime / decayTime) - Math.exp(-peakTime / riseTime))
+}
+
+// A presynaptic spike has reached the terminal: release transmitter
+export function activateSynapse(synapse: Synapse, time: number): Synapse {
+  if (!synapseKinetics[synapse.neurotransmitter]) return { ...synapse, isActive: true, lastActivation: time }
+  return {
+    ...synapse,
+    rise: synapse.rise + synapse.strength,
+    decay: synapse.decay + synapse.strength,
+    isActive: true,
+    lastActivation: time,
+  }
+}
+
+// Let both exponentials relax over dt; exact, so large simulation speeds stay stable
+export function decaySynapse(synapse: Synapse, dt: number): Synapse {
+  const kinetics = synapseKinetics[synapse.neurotransmitter]
+  if (!kinetics) return synapse
+  return {
+    ...synapse,
+    rise: synapse.rise * Math.exp(-dt / kinetics.riseTime),
+    decay: synapse.decay * Math.exp(-dt / kinetics.decayTime),
+  }
+}
+
+// Conductance currently open at the synapse, in units of PEAK_CONDUCTANCE × strength at the peak
+export function synapticConductance(synapse: Synapse, gain = 1) {
+  const kinetics = synapseKinetics[synapse.neurotransmitter]
+  if (!kinetics) return 0
+  return Math.max(0, synapse.decay - synapse.rise) * peakNormalization(kinetics) * PEAK_CONDUCTANCE * gain
+}
@@ -0,0 +1,73 @@
+import type { GatingState } from "./hodgkin-huxley"
+
+// Types for the biological neural network. Times are in ms, potentials in mV.
+export type NeuronType = "pyramidal" | "interneuron" | "motor"
+
+export interface BiologicalNeuron {
+  id: string
+  x: number
+  y: number
+  type: NeuronType
+  restingPotential: number
+  currentPotential: number
+  threshold: number
+  isActive: boolean
+  lastSpikeTime: number
+  // Net synaptic drive on the last step (mV/ms): positive depolarizes, negative hyperpolarizes
+  synapticInput: number
+  // Ion channel gates, evolved only by the Hodgkin-Huxley model
+  gating: GatingState
+  // Recovery variable u of the Izhikevich model, or the adaptation current w (pA) of AdEx
+  recovery: number
+  // Decaying trace of this neuron's own spikes, read by STDP when presynaptic spikes arrive
+  postTrace: number
+  dendrites: Dendrite[]
+  axon: Axon
+}
+
+export interface Dendrite {
+  id: string
+  points: { x: number; y: number }[]
+  activity: number
+}
+
+export interface Axon {
+  id: string
+  points: { x: number; y: number }[]
+  terminals: { x: number; y: number; targetNeuronId: string }[]
+  signalPosition: number
+  isTransmitting: boolean
+}
+
+export interface ActionPotential {
+  neuronId: string
+  startTime: number
+  // Fraction of the axon travelled; the spike reaches the terminals at 1
+  position: number
+  amplitude: number
+}
+
+export type Neurotransmitter = "glutamate" | "gaba" | "dopamine"
+
+export interface Synapse {
+  id: string
+  preNeuronId: string
+  postNeuronId: string
+  x: number
+  y: number
+  strength: number
+  neurotransmitter: Neurotransmitter
+  isActive: boolean
+  lastActivation: number
+  // The two exponentials of the conductance time course; their difference rises and then decays
+  rise: number
+  decay: number
+  // Decaying trace of presynaptic spike arrivals, read by STDP when the postsynaptic neuron fires
+  preTrace: number
+}
+
+// A spike recorded at the soma, for the raster and rate plots
+export interface SpikeEvent {
+  neuronId: string
+  time: number
+}
@@ -0,0 +1,230 @@
+// Uploaded CSV datasets: parsed in the browser, then turned into normalized features and targets.
+// Row numbers in error messages are file lines, counting the header as row 1, so they match a spreadsheet.
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+  // File line on which each row starts (a quoted field may span several lines)
+  lines: number[]
+}
+
+export type CsvParseResult = { ok: true; table: CsvTable } | { ok: false; errors: string[] }
+
+export type Normalization = "none" | "minmax" | "zscore"
+
+export const normalizations: Record<Normalization, { label: string; description: string }> = {
+  none: { label: "None", description: "Use the values as they are in the file." },
+  minmax: { label: "Min-max", description: "Rescale each column linearly onto a fixed interval." },
+  zscore: { label: "Z-score", description: "Shift each column to mean 0 and scale it to standard deviation 1." },
+}
+
+// Numeric targets are predicted as a value; class targets are one-hot encoded
+export type TargetType = "numeric" | "classes"
+
+// More distinct target values than this can't be one-hot encoded onto a sensible output layer
+export const MAX_CLASSES = 10
+
+export interface CsvDatasetOptions {
+  features: number[]
+  target: number
+  targetType: TargetType
+  normalization: Normalization
+  // Interval min-max scaling maps onto (numeric targets always use it unless normalization is "none")
+  range?: [number, number]
+  // Upper limit on the number of classes (MAX_CLASSES by default)
+  maxClasses?: number
+}
+
+export interface CsvDataset {
+  featureNames: string[]
+  targetName: string
+  targetType: TargetType
+  inputs: number[][]
+  // One-hot rows for classes, a single scaled value for numeric targets
+  targets: number[][]
+  // Class names in one-hot order (empty for numeric targets)
+  classes: string[]
+}
+
+export type CsvDatasetResult = { ok: true; dataset: CsvDataset } | { ok: false; errors: string[] }
+
+// Most problems are reported at once; past this many the list is cut short
+const MAX_ERRORS = 20
+
+const DELIMITERS = [",", ";", "\t"]
+
+// Spreadsheets exported with a European locale separate fields with semicolons; pick whichever
+// candidate appears most often in the header line
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  return DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best,
+  )
+}
+
+const parseNumber = (cell: string) => {
+  const trimmed = cell.trim()
+  return trimmed === "" ? NaN : Number(trimmed)
+}
+
+// RFC 4180 records: quoted fields may hold delimiters, newlines and doubled quotes. Blank lines are skipped.
+export function parseCsv(text: string): CsvParseResult {
+  const source = text.replace(/^\uFEFF/, "")
+  const delimiter = detectDelimiter(source)
+  const records: { cells: string[]; line: number }[] = []
+  let cells: string[] = []
+  let cell = ""
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+  let quoteLine = 0
+
+  const endRecord = () => {
+    cells.push(cell)
+    if (cells.length > 1 || cells[0].trim() !== "") records.push({ cells, line: recordLine })
+    cells = []
+    cell = ""
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        cell += char
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true
+      quoteLine = line
+      cell = ""
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) return { ok: false, errors: [`row ${quoteLine}: a quoted field is never closed`] }
+  if (cell !== "" || cells.length > 0) endRecord()
+
+  if (records.length === 0) return { ok: false, errors: ["The file is empty"] }
+  const [header, ...data] = records
+  const headers = header.cells.map((name) => name.trim())
+  const errors: string[] = []
+  headers.forEach((name, i) => {
+    if (name === "") errors.push(`row ${header.line}, column ${i + 1}: the header is empty`)
+    else if (headers.indexOf(name) < i) errors.push(`row ${header.line}, column ${i + 1}: "${name}" is repeated`)
+  })
+  data.forEach(({ cells: row, line: rowLine }) => {
+    if (row.length !== headers.length) {
+      errors.push(`row ${rowLine}: expected ${headers.length} fields like the header, found ${row.length}`)
+    }
+  })
+  if (data.length === 0) errors.push("The file has a header but no data rows")
+  if (errors.length > 0) return { ok: false, errors: truncate(errors) }
+
+  return {
+    ok: true,
+    table: { headers, rows: data.map((record) => record.cells), lines: data.map((record) => record.line) },
+  }
+}
+
+// Whether every cell of a column holds a number, which decides the defaults offered for it
+export const isNumericColumn = (table: CsvTable, column: number) =>
+  table.rows.every((row) => Number.isFinite(parseNumber(row[column])))
+
+// Distinct values of a column in order of first appearance
+export const distinctValues = (table: CsvTable, column: number) => [
+  ...new Set(table.rows.map((row) => row[column].trim())),
+]
+
+const truncate = (errors: string[]) =>
+  errors.length > MAX_ERRORS
+    ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more problems`]
+    : errors
+
+// Rescale a column; a constant column maps to the middle of the range (or to 0 for z-scores)
+function normalize(values: number[], normalization: Normalization, [low, high]: [number, number]) {
+  if (normalization === "minmax") {
+    const min = values.reduce((a, b) => Math.min(a, b), Infinity)
+    const span = values.reduce((a, b) => Math.max(a, b), -Infinity) - min
+    return values.map((v) => (span > 0 ? low + ((v - min) / span) * (high - low) : (low + high) / 2))
+  }
+  if (normalization === "zscore") {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+    const deviation = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)
+    return values.map((v) => (deviation > 0 ? (v - mean) / deviation : 0))
+  }
+  return values
+}
+
+// Build inputs and targets from the chosen columns. Every cell that can't be used is reported by row and column.
+export function buildCsvDataset(table: CsvTable, options: CsvDatasetOptions): CsvDatasetResult {
+  const { features, target, targetType, normalization, range = [0, 1], maxClasses = MAX_CLASSES } = options
+  const errors: string[] = []
+  if (features.length === 0) errors.push("Choose at least one feature column")
+  if (features.includes(target)) errors.push(`"${table.headers[target]}" can't be both a feature and the target`)
+  if (errors.length > 0) return { ok: false, errors }
+
+  const numericColumn = (column: number) =>
+    table.rows.map((row, r) => {
+      const value = parseNumber(row[column])
+      if (!Number.isFinite(value)) {
+        const cell = row[column].trim()
+        errors.push(
+          `row ${table.lines[r]}, column "${table.headers[column]}": ` +
+            (cell === "" ? "the value is missing" : `"${cell}" is not a number`),
+        )
+      }
+      return value
+    })
+
+  const columns = features.map((column) => numericColumn(column))
+  let targets: number[][] = []
+  let classes: string[] = []
+  if (targetType === "numeric") {
+    const values = numericColumn(target)
+    // A numeric target is always rescaled onto the range (unless left raw), so a bounded output can reach it
+    const scaled = normalize(values, normalization === "none" ? "none" : "minmax", range)
+    targets = scaled.map((v) => [v])
+  } else {
+    classes = distinctValues(table, target)
+    table.rows.forEach((row, r) => {
+      if (row[target].trim() === "") {
+        errors.push(`row ${table.lines[r]}, column "${table.headers[target]}": the class is missing`)
+      }
+    })
+    if (classes.length < 2) {
+      errors.push(`column "${table.headers[target]}": needs at least two classes, found ${classes.length}`)
+    } else if (classes.length > maxClasses) {
+      errors.push(
+        `column "${table.headers[target]}": ${classes.length} distinct values, at most ${maxClasses} classes ` +
+          "(use it as a numeric target instead?)",
+      )
+    }
+    targets = table.rows.map((row) => classes.map((name) => (name === row[target].trim() ? 1 : 0)))
+  }
+  if (errors.length > 0) return { ok: false, errors: truncate(errors) }
+
+  const scaled = columns.map((values) => normalize(values, normalization, range))
+  return {
+    ok: true,
+    dataset: {
+      featureNames: features.map((column) => table.headers[column]),
+      targetName: table.headers[target],
+      targetType,
+      inputs: table.rows.map((_, r) => scaled.map((values) => values[r])),
+      targets,
+      classes,
+    },
+  }
+}